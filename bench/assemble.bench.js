@@ -0,0 +1,66 @@
+const {combineLatest, isObservable, merge, of, Subject} = require('rxjs');
+const {map, scan} = require('rxjs/operators');
+const {bench} = require('./index');
+const {assemble$_, clearActorTypes, toState$_} = require('../dist');
+
+/** Previous `assemble$` combining the `base` with the merged `parts` (emits per changed part). */
+const assembleCombined$ = (base, parts) =>
+  combineLatest([
+    base,
+    merge(...Object.entries(parts).map(([key, value]) => (isObservable(value) ? value : of(value)).pipe(map((_) => ({[key]: _}))))).pipe(
+      scan((acc, val) => Object.assign({}, acc, val), {}),
+    ),
+  ]).pipe(map(([into, from]) => Object.assign({}, into, from)));
+
+/** Previous `assemble$_` combining the `base` and `parts` via the previous `assemble$`. */
+const assembleCombined$_ = (base, parts) => (action$) =>
+  assembleCombined$(
+    base(action$),
+    Object.entries(parts).reduce((acc, [key, part]) => ({...acc, [key]: typeof part === 'function' ? part(action$) : part}), {}),
+  );
+
+const increment = (state) => ({...state, count: state.count + 1});
+
+/** Creates a tree of `width ^ depth` slices handling `INC_<path>` and `INC_ALL` and the list of their paths. */
+const createTree = (assemble, depth, width, path = 'root') => {
+  if (!depth) {
+    return {createState: toState$_({count: 0}, {[`INC_${path}`]: increment, INC_ALL: increment}), paths: [path]};
+  }
+  const children = Array.from({length: width}, (_, ii) => createTree(assemble, depth - 1, width, `${path}_${ii}`));
+  const parts = children.reduce((acc, child, ii) => ({...acc, [`child${ii}`]: child.createState}), {});
+  return {
+    createState: assemble(toState$_({count: 0}, {[`INC_${path}`]: increment, INC_ALL: increment}), parts),
+    paths: [path, ...children.reduce((acc, child) => [...acc, ...child.paths], [])],
+  };
+};
+
+/** Dispatches `count` actions (every tenth one touching all slices) and returns the number of root emissions. */
+const run = (createState, paths, count) => {
+  const action$ = new Subject();
+  let emissions = 0;
+  const subscription = createState(action$).subscribe(() => ++emissions);
+  for (let ii = 0; ii < count; ++ii) {
+    action$.next({type: ii % 10 ? `INC_${paths[(ii * 7919) % paths.length]}` : 'INC_ALL', value: null});
+  }
+  subscription.unsubscribe();
+  return emissions;
+};
+
+[
+  [2, 8],
+  [3, 7],
+  [4, 5],
+].forEach(([depth, width]) => {
+  const batched = createTree(assemble$_, depth, width);
+  const combined = createTree(assembleCombined$_, depth, width);
+  const actions = 2000;
+  console.log(
+    `\ntree of depth ${depth} and width ${width}: ${batched.paths.length} slices, ${actions} actions, root emissions:`,
+    `assemble$_ ${run(batched.createState, batched.paths, actions)}, previous ${run(combined.createState, combined.paths, actions)}`,
+  );
+  bench(`assemble tree of ${batched.paths.length} slices with ${actions} actions`, 3, {
+    assemble$_: () => run(batched.createState, batched.paths, actions),
+    'previous assemble$_': () => run(combined.createState, combined.paths, actions),
+  });
+  clearActorTypes();
+});
@@ -0,0 +1,19 @@
+const {bench} = require('./index');
+const {deepEqual, jsonEqual} = require('../dist');
+
+const createItems = (count) => Array.from({length: count}, (_, ii) => ({id: ii, name: `item ${ii}`, tags: {color: 'red', size: ii % 5}}));
+
+[1000, 10000, 100000].forEach((count) => {
+  const aa = createItems(count);
+  const bb = createItems(count);
+  const cc = createItems(count);
+  cc[count - 1].tags.size = -1;
+  const runs = count >= 100000 ? 10 : 100;
+
+  bench(`equal arrays of ${count} objects`, runs, {
+    'jsonEqual (equal)': () => jsonEqual(aa, bb),
+    'deepEqual (equal)': () => deepEqual(aa, bb),
+    'jsonEqual (last differs)': () => jsonEqual(aa, cc),
+    'deepEqual (last differs)': () => deepEqual(aa, cc),
+  });
+});
@@ -0,0 +1,29 @@
+// Runs all benchmarks against the build in `dist` (see `npm run bench`).
+const fs = require('fs');
+const path = require('path');
+
+/** Measures average milliseconds per run of `fn` after a warm-up. */
+const measure = (fn, runs) => {
+  for (let ii = 0; ii < Math.min(runs, 10); ++ii) {
+    fn();
+  }
+  const start = process.hrtime.bigint();
+  for (let ii = 0; ii < runs; ++ii) {
+    fn();
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / runs;
+};
+
+/** Prints the measured `cases` (name to function) as table. */
+const bench = (title, runs, cases) => {
+  console.log(`\n${title} (${runs} runs)`);
+  console.table(Object.entries(cases).reduce((acc, [name, fn]) => ({...acc, [name]: {'ms/run': +measure(fn, runs).toFixed(4)}}), {}));
+};
+
+module.exports = {bench};
+
+if (require.main === module) {
+  fs.readdirSync(__dirname)
+    .filter((file) => file.endsWith('.bench.js'))
+    .forEach((file) => require(path.join(__dirname, file)));
+}
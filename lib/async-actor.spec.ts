@@ -0,0 +1,64 @@
+import {Subject} from 'rxjs';
+import {asyncActor, asyncHandlers_, asyncState$_, clearActorTypes, createStore, initAsyncState, RxState} from './index';
+
+describe('async actor', () => {
+  afterEach(() => clearActorTypes());
+
+  test('asyncActor', () => {
+    const load = asyncActor<string, number[]>('LOAD', 'items');
+    expect(load.started.new('a')).toEqual({type: 'LOAD_items_STARTED', value: 'a'});
+    expect(load.done.new({params: 'a', result: [1]})).toEqual({type: 'LOAD_items_DONE', value: {params: 'a', result: [1]}});
+    expect(load.failed.new({params: 'a', error: 'err'})).toEqual({type: 'LOAD_items_FAILED', value: {params: 'a', error: 'err'}});
+  });
+
+  test('asyncHandlers_', () => {
+    const load = asyncActor<string, number[]>('LOAD', 'items');
+    const handlers = asyncHandlers_(load);
+
+    let state = initAsyncState<string, number[]>([]);
+    expect(state).toEqual({loading: false, error: null, data: [], params: null});
+
+    state = handlers[load.started.type](state, 'a');
+    expect(state).toEqual({loading: true, error: null, data: [], params: 'a'});
+
+    state = handlers[load.failed.type](state, {params: 'a', error: 'err'});
+    expect(state).toEqual({loading: false, error: 'err', data: [], params: 'a'});
+
+    state = handlers[load.started.type](state, 'b');
+    expect(state).toEqual({loading: true, error: null, data: [], params: 'b'});
+
+    state = handlers[load.done.type](state, {params: 'b', result: [1]});
+    expect(state).toEqual({loading: false, error: null, data: [1], params: 'b'});
+  });
+
+  test('RxState.run', async () => {
+    const load = asyncActor<string, number, string>('LOAD', 'items');
+    const rxState = new RxState(createStore(asyncState$_(load, 0)));
+    const first$ = new Subject<number>();
+    const second$ = new Subject<number>();
+    const run = rxState.run_(load, (params) => (params === 'first' ? first$ : second$));
+
+    run('first');
+    expect(rxState.getState()).toEqual({loading: true, error: null, data: 0, params: 'first'});
+
+    run('second');
+    expect(first$.observers.length).toBe(0);
+    first$.next(1);
+    expect(rxState.getState()).toEqual({loading: true, error: null, data: 0, params: 'second'});
+
+    second$.next(2);
+    expect(rxState.getState()).toEqual({loading: false, error: null, data: 2, params: 'second'});
+
+    rxState.run(load, () => Promise.reject('broken'), 'third');
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(rxState.getState()).toEqual({loading: false, error: 'broken', data: 2, params: 'third'});
+
+    rxState.run(load, () => Promise.resolve(3), 'fourth');
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(rxState.getState()).toEqual({loading: false, error: null, data: 3, params: 'fourth'});
+
+    run('fifth');
+    rxState.destroy();
+    expect(second$.observers.length).toBe(0);
+  });
+});
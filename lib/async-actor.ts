@@ -0,0 +1,75 @@
+import {ActionHandlerMap, actor, Actor, StreamToState, toState$_} from './index';
+
+/** Standard state of an asynchronous operation. */
+export interface AsyncState<P, R, E = any> {
+  loading: boolean;
+  error: E;
+  data: R;
+  params: P;
+}
+
+/** Value of the `AsyncActor.done` action. */
+export interface AsyncDone<P, R> {
+  params: P;
+  result: R;
+}
+
+/** Value of the `AsyncActor.failed` action. */
+export interface AsyncFailed<P, E> {
+  params: P;
+  error: E;
+}
+
+/** Wrapper for the lifecycle `Actor`s of an asynchronous operation. */
+export interface AsyncActor<P, R, E = any> {
+  started: Actor<P>;
+  done: Actor<AsyncDone<P, R>>;
+  failed: Actor<AsyncFailed<P, E>>;
+}
+
+/**
+ * Creates an `AsyncActor` with `started`, `done` and `failed` actors with types concatenated from the `type: string[]` parameter.
+ * @example
+ * const load_products = asyncActor<ProductsFilter, string[], HttpError>('LOAD', STATETAG, 'products');
+ * ...
+ * rxState.run(load_products, (filter) => api.httpGetProducts$(filter), filter);
+ */
+export const asyncActor = <P, R, E = any>(...type: string[]) =>
+  <AsyncActor<P, R, E>>{
+    started: actor<P>(...type, 'STARTED'),
+    done: actor<AsyncDone<P, R>>(...type, 'DONE'),
+    failed: actor<AsyncFailed<P, E>>(...type, 'FAILED'),
+  };
+
+/** Returns an initial `AsyncState` with optional initial `data`. */
+export const initAsyncState = <P, R, E = any>(data: R = null) => <AsyncState<P, R, E>>{loading: false, error: null, data, params: null};
+
+/**
+ * Returns the handlers maintaining an `AsyncState` for the actions of the `AsyncActor`.
+ * @example
+ * const state_products$ = toState$_(initAsyncState<ProductsFilter, string[]>([]), asyncHandlers_(load_products));
+ */
+export const asyncHandlers_ = <P, R, E = any>(act: AsyncActor<P, R, E>): ActionHandlerMap<AsyncState<P, R, E>> => ({
+  [act.started.type]: (state: AsyncState<P, R, E>, params: P) => ({...state, loading: true, error: null, params}),
+  [act.done.type]: (state: AsyncState<P, R, E>, value: AsyncDone<P, R>) => ({
+    ...state,
+    loading: false,
+    error: null,
+    data: value.result,
+    params: value.params,
+  }),
+  [act.failed.type]: (state: AsyncState<P, R, E>, value: AsyncFailed<P, E>) => ({
+    ...state,
+    loading: false,
+    error: value.error,
+    params: value.params,
+  }),
+});
+
+/**
+ * Returns a creator for a state Observable maintaining an `AsyncState` for the actions of the `AsyncActor`.
+ * @example
+ * const state$_ = initReduceAssemble$_(<StateViewProducts>{products: null, ...}, {...}, {products: asyncState$_(load_products, [])});
+ */
+export const asyncState$_ = <P, R, E = any>(act: AsyncActor<P, R, E>, data: R = null): StreamToState<AsyncState<P, R, E>> =>
+  toState$_(initAsyncState<P, R, E>(data), asyncHandlers_(act));
@@ -0,0 +1,107 @@
+import {
+  actor,
+  connectDevTools,
+  createStore,
+  DevToolsConnection,
+  DevToolsExtension,
+  DevToolsMessage,
+  redSetPropertyIfNotSame_,
+  toState$_,
+} from './index';
+
+describe('devtools', () => {
+  interface Test {
+    a?: number;
+  }
+
+  const set_a = actor<number>('SetA');
+  const state$ = toState$_(<Test>{a: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a')});
+
+  const createFakeExtension = () => {
+    const fake = {
+      name: <string>null,
+      listener: <(message: DevToolsMessage) => void>null,
+      inits: [],
+      sent: [],
+      unsubscribed: false,
+    };
+    const extension: DevToolsExtension = {
+      connect: (options) => {
+        fake.name = options.name;
+        return <DevToolsConnection>{
+          init: (state) => fake.inits.push(state),
+          send: (action, state) => fake.sent.push([action, state]),
+          subscribe: (listener) => {
+            fake.listener = listener;
+            return () => (fake.listener = null);
+          },
+          unsubscribe: () => (fake.unsubscribed = true),
+        };
+      },
+    };
+    return {fake, extension};
+  };
+
+  test('does nothing without extension', () => {
+    const store = createStore(state$);
+    expect(connectDevTools(store).closed).toBe(true);
+    store.destruct();
+  });
+
+  test('sends init, actions and states', () => {
+    const {fake, extension} = createFakeExtension();
+    const store = createStore(state$);
+    const subscription = connectDevTools(store, {name: 'test', extension});
+
+    expect(fake.name).toBe('test');
+    expect(fake.inits).toEqual([{a: 0}]);
+
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_a.new(2));
+    expect(fake.sent).toEqual([
+      [set_a.new(1), {a: 1}],
+      [set_a.new(2), {a: 2}],
+    ]);
+
+    subscription.unsubscribe();
+    expect(fake.listener).toBe(null);
+    expect(fake.unsubscribed).toBe(true);
+
+    store.dispatch(set_a.new(3));
+    expect(fake.sent.length).toBe(2);
+
+    store.destruct();
+  });
+
+  test('handles monitor commands', () => {
+    const {fake, extension} = createFakeExtension();
+    const store = createStore(state$);
+    connectDevTools(store, {extension});
+
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_a.new(2));
+
+    fake.listener({type: 'DISPATCH', payload: {type: 'JUMP_TO_STATE'}, state: JSON.stringify({a: 1})});
+    expect(store.getState()).toEqual({a: 1});
+
+    fake.listener({type: 'DISPATCH', payload: {type: 'JUMP_TO_ACTION'}, state: JSON.stringify({a: 0})});
+    expect(store.getState()).toEqual({a: 0});
+    expect(fake.sent.length).toBe(2);
+
+    const nextLiftedState = {computedStates: [{state: {a: 0}}, {state: {a: 10}}]};
+    fake.listener({type: 'DISPATCH', payload: {type: 'IMPORT_STATE', nextLiftedState}});
+    expect(store.getState()).toEqual({a: 10});
+    expect(fake.sent[2]).toEqual([null, nextLiftedState]);
+
+    fake.listener({type: 'DISPATCH', payload: {type: 'COMMIT'}});
+    expect(fake.inits).toEqual([{a: 0}, {a: 10}]);
+
+    fake.listener({type: 'ACTION', payload: 'ignored'});
+    expect(store.getState()).toEqual({a: 10});
+
+    store.dispatch(set_a.new(3));
+    expect(fake.sent[3]).toEqual([set_a.new(3), {a: 3}]);
+
+    store.destruct();
+  });
+});
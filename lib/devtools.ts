@@ -0,0 +1,100 @@
+import {Subscription} from 'rxjs';
+import {replace_state, Store} from './index';
+
+/** Message sent from the Redux DevTools monitor to the app. */
+export interface DevToolsMessage {
+  type: string;
+  payload?: any;
+  /** Serialized state of e.g. `JUMP_TO_STATE` messages. */
+  state?: string;
+}
+
+/** Connection as returned by the Redux DevTools extension `connect()` call. */
+export interface DevToolsConnection {
+  init(state: any): void;
+  send(action: any, state: any): void;
+  subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+  unsubscribe?(): void;
+}
+
+/** Redux DevTools extension i.e. `window.__REDUX_DEVTOOLS_EXTENSION__`. */
+export interface DevToolsExtension {
+  connect(options?: {name?: string}): DevToolsConnection;
+}
+
+/** Options for `connectDevTools`. */
+export interface DevToolsOptions {
+  /** Instance name shown in the monitor. */
+  name?: string;
+  /** Extension to connect to (default: `window.__REDUX_DEVTOOLS_EXTENSION__` if available). */
+  extension?: DevToolsExtension;
+}
+
+const getGlobalExtension = (): DevToolsExtension =>
+  typeof window !== 'undefined' ? (window as any).__REDUX_DEVTOOLS_EXTENSION__ || null : null;
+
+/**
+ * Connects the `store` to the Redux DevTools extension: sends the dispatched actions with resulting states and handles the
+ * `JUMP_TO_STATE`, `JUMP_TO_ACTION`, `IMPORT_STATE` and `COMMIT` monitor commands. Does nothing if there is no extension.
+ * @example
+ * const store = createStore(state_ui$);
+ * const devTools = connectDevTools(store, {name: 'ui'});
+ * ...
+ * devTools.unsubscribe();
+ */
+export const connectDevTools = <T>(store: Store<T>, options?: DevToolsOptions) => {
+  const subscription = new Subscription();
+  const extension = (options && options.extension) || getGlobalExtension();
+  if (!extension) {
+    subscription.unsubscribe();
+    return subscription;
+  }
+
+  const connection = extension.connect({name: (options && options.name) || 'dd-rx-state'});
+  let replacing = false;
+  const replace = (state: T) => {
+    replacing = true;
+    try {
+      store.dispatch(replace_state.new(state));
+    } finally {
+      replacing = false;
+    }
+  };
+
+  const unsubscribeMessages = connection.subscribe((message) => {
+    if (!message || message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        replace(JSON.parse(message.state));
+        break;
+      case 'IMPORT_STATE': {
+        const lifted = message.payload.nextLiftedState;
+        const computed = (lifted && lifted.computedStates) || [];
+        if (computed.length) {
+          replace(computed[computed.length - 1].state);
+        }
+        connection.send(null, lifted);
+        break;
+      }
+      case 'COMMIT':
+        connection.init(store.getState());
+        break;
+    }
+  });
+
+  subscription.add(store.action$.subscribe((action) => (replacing ? null : connection.send(action, store.getState()))));
+  subscription.add(() => {
+    if (typeof unsubscribeMessages === 'function') {
+      unsubscribeMessages();
+    }
+    if (connection.unsubscribe) {
+      connection.unsubscribe();
+    }
+  });
+
+  connection.init(store.getState());
+  return subscription;
+};
@@ -0,0 +1,100 @@
+import {clearActorTypes, createStore, entityAdapter, EntityState, initReduceAssemble$_, watch} from './index';
+
+describe('entityAdapter', () => {
+  afterEach(() => clearActorTypes());
+
+  interface Product {
+    id: number;
+    name: string;
+  }
+  interface StateViewProducts {
+    products?: EntityState<Product, number>;
+  }
+
+  const apple = <Product>{id: 1, name: 'apple'};
+  const banana = <Product>{id: 2, name: 'banana'};
+  const cherry = <Product>{id: 3, name: 'cherry'};
+
+  test('creates actors', () => {
+    const products = entityAdapter<Product, number>('PRODUCTS');
+    expect(products.addOne.type).toBe('ADD_ONE_PRODUCTS');
+    expect(products.addMany.type).toBe('ADD_MANY_PRODUCTS');
+    expect(products.upsertOne.type).toBe('UPSERT_ONE_PRODUCTS');
+    expect(products.updateOne.new({id: 1, changes: {name: 'a'}})).toEqual({
+      type: 'UPDATE_ONE_PRODUCTS',
+      value: {id: 1, changes: {name: 'a'}},
+    });
+    expect(products.removeOne.type).toBe('REMOVE_ONE_PRODUCTS');
+    expect(products.setAll.type).toBe('SET_ALL_PRODUCTS');
+    expect(Object.keys(products.handlers).length).toBe(6);
+    expect(products.init()).toEqual({ids: [], entities: {}});
+    expect(products.init([apple, banana])).toEqual({ids: [1, 2], entities: {1: apple, 2: banana}});
+  });
+
+  test('reduces state', () => {
+    const products = entityAdapter<Product, number>('PRODUCTS');
+    const reduce = (state, action) => products.handlers[action.type](state, action.value);
+    const init = products.init();
+
+    const added = reduce(init, products.addOne.new(banana));
+    expect(added).toEqual({ids: [2], entities: {2: banana}});
+    expect(reduce(added, products.addOne.new({...banana}))).toBe(added);
+
+    const many = reduce(added, products.addMany.new([apple, banana, cherry]));
+    expect(many).toEqual({ids: [2, 1, 3], entities: {1: apple, 2: banana, 3: cherry}});
+    expect(reduce(many, products.upsertOne.new(apple))).toBe(many);
+
+    const upserted = reduce(many, products.upsertOne.new({id: 1, name: 'apricot'}));
+    expect(upserted.ids).toBe(many.ids);
+    expect(upserted.entities[1]).toEqual({id: 1, name: 'apricot'});
+    expect(upserted.entities[2]).toBe(banana);
+
+    expect(reduce(upserted, products.updateOne.new({id: 2, changes: {name: 'banana'}}))).toBe(upserted);
+    expect(reduce(upserted, products.updateOne.new({id: 9, changes: {name: 'x'}}))).toBe(upserted);
+    const updated = reduce(upserted, products.updateOne.new({id: 2, changes: {name: 'blueberry'}}));
+    expect(updated.entities[2]).toEqual({id: 2, name: 'blueberry'});
+    const renamed = reduce(updated, products.updateOne.new({id: 2, changes: {id: 4}}));
+    expect(renamed).toEqual({ids: [4, 1, 3], entities: {1: {id: 1, name: 'apricot'}, 3: cherry, 4: {id: 4, name: 'blueberry'}}});
+
+    expect(reduce(renamed, products.removeOne.new(2))).toBe(renamed);
+    expect(reduce(renamed, products.removeOne.new(4))).toEqual({ids: [1, 3], entities: {1: {id: 1, name: 'apricot'}, 3: cherry}});
+
+    expect(reduce(renamed, products.setAll.new([cherry]))).toEqual({ids: [3], entities: {3: cherry}});
+    expect(reduce(renamed, products.setAll.new([]))).toEqual(init);
+  });
+
+  test('sorts and selects by id', () => {
+    const products = entityAdapter<Product, string>('PRODUCTS', {
+      selectId: (product) => product.name,
+      sortComparer: (aa, bb) => bb.name.localeCompare(aa.name),
+    });
+    const reduce = (state, action) => products.handlers[action.type](state, action.value);
+
+    const state = reduce(products.init([banana, apple]), products.addOne.new(cherry));
+    expect(state.ids).toEqual(['cherry', 'banana', 'apple']);
+    expect(products.selectById('apple')(state)).toBe(apple);
+    expect(reduce(state, products.updateOne.new({id: 'apple', changes: {name: 'date'}})).ids).toEqual(['date', 'cherry', 'banana']);
+  });
+
+  test('selects with watch', () => {
+    const products = entityAdapter<Product, number>('PRODUCTS');
+    const store = createStore(initReduceAssemble$_(<StateViewProducts>{products: null}, {}, {products: products.state$_([apple])}));
+
+    const all: Product[][] = [];
+    const totals: number[] = [];
+    const sub = store.state$.pipe(watch((st) => products.selectAll(st.products))).subscribe((val) => all.push(val));
+    const subTotal = store.state$.pipe(watch((st) => products.selectTotal(st.products))).subscribe((val) => totals.push(val));
+
+    store.dispatch(products.addOne.new(banana));
+    store.dispatch(products.addOne.new(banana));
+    store.dispatch(products.removeOne.new(1));
+    sub.unsubscribe();
+    subTotal.unsubscribe();
+    store.destruct();
+
+    expect(all).toEqual([[apple], [apple, banana], [banana]]);
+    expect(totals).toEqual([1, 2, 1]);
+    expect(products.selectAll(products.init([apple]))).toEqual([apple]);
+    expect(products.selectIds(products.init([apple]))).toEqual([1]);
+  });
+});
@@ -0,0 +1,140 @@
+import {ActionHandlerMap, actor, Actor, StreamToState, toState$_} from './index';
+import {createSelector} from './selector';
+
+/** Supported entity id types. */
+export type EntityId = string | number;
+
+/** Normalized collection of entities. */
+export interface EntityState<E, Id extends EntityId = string> {
+  ids: Id[];
+  entities: Record<Id, E>;
+}
+
+/** Value of the `EntityAdapter.updateOne` action. */
+export interface EntityUpdate<E, Id extends EntityId = string> {
+  id: Id;
+  changes: Partial<E>;
+}
+
+/** Options for `entityAdapter`. */
+export interface EntityAdapterOptions<E, Id extends EntityId = string> {
+  /** Returns the id of an entity (default: `entity.id`). */
+  selectId?: (entity: E) => Id;
+  /** Keeps the `ids` sorted by their entities (default: insertion order). */
+  sortComparer?: (aa: E, bb: E) => number;
+}
+
+/** Actors, handlers and selectors for an `EntityState`. */
+export interface EntityAdapter<E, Id extends EntityId = string> {
+  addOne: Actor<E>;
+  addMany: Actor<E[]>;
+  upsertOne: Actor<E>;
+  updateOne: Actor<EntityUpdate<E, Id>>;
+  removeOne: Actor<Id>;
+  setAll: Actor<E[]>;
+  handlers: ActionHandlerMap<EntityState<E, Id>>;
+  /** Returns an empty `EntityState` or one with the `entities`. */
+  init(entities?: E[]): EntityState<E, Id>;
+  /** Returns a state creator starting with the `entities`. */
+  state$_(entities?: E[]): StreamToState<EntityState<E, Id>>;
+  /** Returns all entities in order of `ids` (memoized). */
+  selectAll(state: EntityState<E, Id>): E[];
+  selectById(id: Id): (state: EntityState<E, Id>) => E;
+  selectIds(state: EntityState<E, Id>): Id[];
+  selectTotal(state: EntityState<E, Id>): number;
+}
+
+/**
+ * Creates an `EntityAdapter` handling a normalized collection of entities with actor types built with the `tag`.
+ * @example
+ * interface Product { id: number; name: string };
+ * const products = entityAdapter<Product, number>('UI_PRODUCTS', {sortComparer: (aa, bb) => aa.name.localeCompare(bb.name)});
+ * ...
+ * const state$_ = initReduceAssemble$_(<StateViewProducts>{products: null, ...}, {...}, {products: products.state$_()});
+ * ...
+ * rxState.act(products.upsertOne, {id: 1, name: 'apple'});
+ * const products$ = rxState.state$.pipe(watch((st) => products.selectAll(st.products)));
+ */
+export const entityAdapter = <E, Id extends EntityId = string>(
+  tag: string,
+  options?: EntityAdapterOptions<E, Id>,
+): EntityAdapter<E, Id> => {
+  type State = EntityState<E, Id>;
+  const selectId = (options && options.selectId) || ((entity: E) => (entity as any).id as Id);
+  const sortComparer = options && options.sortComparer;
+
+  const sorted = (ids: Id[], entities: Record<Id, E>) =>
+    sortComparer ? [...ids].sort((aa, bb) => sortComparer(entities[aa], entities[bb])) : ids;
+  const has = (state: State, id: Id) => Object.prototype.hasOwnProperty.call(state.entities, id);
+
+  const setMany = (state: State, values: E[], replace: boolean): State => {
+    const changed = (values || []).filter((entity) =>
+      replace ? state.entities[selectId(entity)] !== entity : !has(state, selectId(entity)),
+    );
+    if (!changed.length) {
+      return state;
+    }
+    const entities = changed.reduce((acc, entity) => Object.assign(acc, {[selectId(entity)]: entity}), {...state.entities});
+    const added = changed.map(selectId).filter((id, index, ids) => !has(state, id) && ids.indexOf(id) === index);
+    return {ids: added.length || sortComparer ? sorted([...state.ids, ...added], entities) : state.ids, entities};
+  };
+
+  const init = (entities?: E[]) => setMany({ids: [], entities: <Record<Id, E>>{}}, entities, true);
+
+  const addOne = actor<E>('ADD_ONE', tag);
+  const addMany = actor<E[]>('ADD_MANY', tag);
+  const upsertOne = actor<E>('UPSERT_ONE', tag);
+  const updateOne = actor<EntityUpdate<E, Id>>('UPDATE_ONE', tag);
+  const removeOne = actor<Id>('REMOVE_ONE', tag);
+  const setAll = actor<E[]>('SET_ALL', tag);
+
+  const handlers: ActionHandlerMap<State> = {
+    [addOne.type]: (state: State, value: E) => setMany(state, [value], false),
+    [addMany.type]: (state: State, value: E[]) => setMany(state, value, false),
+    [upsertOne.type]: (state: State, value: E) => setMany(state, [value], true),
+    [updateOne.type]: (state: State, value: EntityUpdate<E, Id>) => {
+      if (!value || !has(state, value.id)) {
+        return state;
+      }
+      const current = state.entities[value.id];
+      if (Object.entries(value.changes || {}).every(([key, val]) => current[key] === val)) {
+        return state;
+      }
+      const updated: E = {...current, ...value.changes};
+      const id = selectId(updated);
+      const entities = {...state.entities, [id]: updated};
+      if (id !== value.id) {
+        delete entities[value.id];
+      }
+      return {ids: sorted(id !== value.id ? state.ids.map((ii) => (ii === value.id ? id : ii)) : state.ids, entities), entities};
+    },
+    [removeOne.type]: (state: State, value: Id) => {
+      if (!has(state, value)) {
+        return state;
+      }
+      const entities = {...state.entities};
+      delete entities[value];
+      return {ids: state.ids.filter((id) => id !== value), entities};
+    },
+    [setAll.type]: (state: State, value: E[]) => init(value),
+  };
+
+  const selectIds = (state: State) => state.ids;
+  const selectEntities = (state: State) => state.entities;
+
+  return {
+    addOne,
+    addMany,
+    upsertOne,
+    updateOne,
+    removeOne,
+    setAll,
+    handlers,
+    init,
+    state$_: (entities?: E[]) => toState$_(init(entities), handlers),
+    selectAll: createSelector([selectIds, selectEntities], (ids, entities) => ids.map((id) => entities[id])),
+    selectById: (id: Id) => (state: State) => state.entities[id],
+    selectIds,
+    selectTotal: (state: State) => state.ids.length,
+  };
+};
@@ -0,0 +1,50 @@
+import {deepEqual} from './index';
+
+describe('equal', () => {
+  test('deepEqual primitives', () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual(1, 2)).toBe(false);
+    expect(deepEqual('a', 'a')).toBe(true);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual(null, null)).toBe(true);
+    expect(deepEqual(null, undefined)).toBe(false);
+    expect(deepEqual<any>(0, null)).toBe(false);
+    expect(deepEqual<any>(1, '1')).toBe(false);
+  });
+
+  test('deepEqual objects and arrays', () => {
+    expect(deepEqual({a: 1, b: 2}, {b: 2, a: 1})).toBe(true);
+    expect(deepEqual({a: 1, b: 2}, {a: 1, b: 3})).toBe(false);
+    expect(deepEqual<any>({a: 1}, {a: 1, b: 2})).toBe(false);
+    expect(deepEqual<any>({a: undefined}, {b: undefined})).toBe(false);
+    expect(deepEqual<any>({a: undefined}, {})).toBe(false);
+    expect(deepEqual({a: [1, {b: [2]}]}, {a: [1, {b: [2]}]})).toBe(true);
+    expect(deepEqual([1, 2], [2, 1])).toBe(false);
+    expect(
+      deepEqual<any>([1], {0: 1}),
+    ).toBe(false);
+  });
+
+  test('deepEqual built-ins', () => {
+    expect(deepEqual(new Date(1), new Date(1))).toBe(true);
+    expect(deepEqual(new Date(1), new Date(2))).toBe(false);
+    expect(deepEqual(/a/g, /a/g)).toBe(true);
+    expect(deepEqual(/a/g, /a/i)).toBe(false);
+    expect(deepEqual(new Map([['a', {b: 1}]]), new Map([['a', {b: 1}]]))).toBe(true);
+    expect(deepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+    expect(deepEqual(new Set([1, {a: 1}]), new Set([{a: 1}, 1]))).toBe(true);
+    expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    expect(deepEqual(new Set<object>([{a: 1}, {a: 1}]), new Set([{a: 1}, {b: 2}]))).toBe(false);
+    expect(deepEqual(new Set([{a: 1}, {a: 1}]), new Set([{a: 1}, {a: 1}]))).toBe(true);
+  });
+
+  test('deepEqual cycles', () => {
+    const aa: any = {a: 1};
+    aa.self = aa;
+    const bb: any = {a: 1};
+    bb.self = bb;
+    expect(deepEqual(aa, bb)).toBe(true);
+    bb.a = 2;
+    expect(deepEqual(aa, bb)).toBe(false);
+  });
+});
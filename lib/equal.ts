@@ -0,0 +1,58 @@
+/** Comparator for content equality. */
+export type Equality<T = any> = (aa: T, bb: T) => boolean;
+
+const equalDeep = (aa: any, bb: any, visited: [any, any][]): boolean => {
+  if (aa === bb || (aa !== aa && bb !== bb)) {
+    return true;
+  }
+  if (!aa || !bb || typeof aa !== 'object' || typeof bb !== 'object' || Object.getPrototypeOf(aa) !== Object.getPrototypeOf(bb)) {
+    return false;
+  }
+  if (visited.some(([va, vb]) => va === aa && vb === bb)) {
+    return true;
+  }
+  if (aa instanceof Date) {
+    return aa.getTime() === bb.getTime();
+  }
+  if (aa instanceof RegExp) {
+    return aa.toString() === bb.toString();
+  }
+
+  visited.push([aa, bb]);
+  try {
+    if (Array.isArray(aa)) {
+      return aa.length === bb.length && aa.every((val, index) => equalDeep(val, bb[index], visited));
+    }
+    if (aa instanceof Map) {
+      return (
+        aa.size === bb.size &&
+        Array.from(aa.entries()).every(([key, val]) => (bb as Map<any, any>).has(key) && equalDeep(val, bb.get(key), visited))
+      );
+    }
+    if (aa instanceof Set) {
+      /** Values of `bb` not matched yet, each one matches one value of `aa` at most. */
+      const unmatched = Array.from((bb as Set<any>).values());
+      return (
+        aa.size === bb.size &&
+        Array.from(aa.values()).every((val) => {
+          const index = unmatched.includes(val) ? unmatched.indexOf(val) : unmatched.findIndex((valB) => equalDeep(val, valB, visited));
+          return index >= 0 && !!unmatched.splice(index, 1).length;
+        })
+      );
+    }
+    const keysA = Object.keys(aa);
+    return (
+      keysA.length === Object.keys(bb).length &&
+      keysA.every((key) => Object.prototype.hasOwnProperty.call(bb, key) && equalDeep(aa[key], bb[key], visited))
+    );
+  } finally {
+    visited.pop();
+  }
+};
+
+/**
+ * Helper: testing deep content equality independent of key order, incl. `Date`, `RegExp`, `Map`, `Set`, `undefined` values and cycles.
+ * @example
+ * deepEqual({a: 1, b: 2}, {b: 2, a: 1}); // true
+ */
+export const deepEqual = <T>(aa: T, bb: T) => equalDeep(aa, bb, []);
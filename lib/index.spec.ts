@@ -1,13 +1,24 @@
-import {BehaviorSubject, Subject, timer} from 'rxjs';
-import {take} from 'rxjs/operators';
+import {asapScheduler, BehaviorSubject, defer, Observable, Subject, timer, VirtualTimeScheduler} from 'rxjs';
+import {filter, map, take, withLatestFrom} from 'rxjs/operators';
 import {
   Action,
   actor,
+  apply_patch,
+  actorFactory,
   assemble$,
   assemble$_,
+  clearActorTypes,
+  connectDevTools,
   createStore,
+  deepEqual,
+  deepFreeze,
+  derived,
+  deserializeSnapshot,
+  Effect,
   forceBool,
   forceNum,
+  getActorTypes,
+  Middleware,
   initReduceAssemble$,
   initReduceAssemble$_,
   jsonEqual,
@@ -22,7 +33,9 @@ import {
   redSetPropertyIfNotEqual_,
   redSetPropertyIfNotSame_,
   reducers_,
+  replace_state,
   RxState,
+  setActorTypeCheck,
   setPropertyIfNotEqual,
   setPropertyIfNotSame,
   toState$,
@@ -31,6 +44,8 @@ import {
 } from './index';
 
 describe('rx state', () => {
+  afterEach(() => clearActorTypes());
+
   test('jsonEqual', () => {
     expect(jsonEqual(1, 2)).toBe(false);
     expect(jsonEqual(1, 1)).toBe(true);
@@ -109,6 +124,10 @@ describe('rx state', () => {
     expect(setPropertyIfNotEqual(val, 'a', {b: 2})).toBe(val);
     expect(setPropertyIfNotEqual(val, 'a', {b: 3})).toEqual({a: {b: 3}});
     expect(setPropertyIfNotEqual(null, 'a', {b: 2})).toBe(null);
+
+    const unordered = {a: {b: 2, c: 3}};
+    expect(setPropertyIfNotEqual(unordered, 'a', {c: 3, b: 2})).toBe(unordered);
+    expect(setPropertyIfNotEqual(unordered, 'a', {c: 3, b: 2}, jsonEqual)).toEqual({a: {c: 3, b: 2}});
   });
 
   test('redSetPropertyIfNotEqual_', () => {
@@ -124,6 +143,7 @@ describe('rx state', () => {
     expect(redSetPropertyIfNotEqual_<TestA, 'a'>('a')(val, {b: 2})).toBe(val);
     expect(redSetPropertyIfNotEqual_<TestA, 'a'>('a')(val, {b: 3})).toEqual({a: {b: 3}});
     expect(redSetPropertyIfNotEqual_<TestA, 'a'>('a')(null, {b: 2})).toBe(null);
+    expect(redSetPropertyIfNotEqual_<TestA, 'a'>('a', (aa, bb) => aa.b % 2 === bb.b % 2)(val, {b: 4})).toBe(val);
   });
 
   test('redSet', () => {
@@ -181,6 +201,100 @@ describe('rx state', () => {
     expect(set_authstring.new('User:Password')).toEqual({type: 'SET_GLOBAL_STATE_NETWORK_SETTINGS_authstring', value: 'User:Password'});
   });
 
+  test('actor type registry', () => {
+    clearActorTypes();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+    actor<number>('SET', 'a');
+    expect(getActorTypes()).toEqual(['SET_a']);
+    expect(warn).not.toHaveBeenCalled();
+
+    actor<number>('SET', 'a');
+    expect(warn).toHaveBeenCalledWith('Actor type duplicate: SET_a');
+
+    expect(actor<number>().type).toBe('???');
+    expect(warn).toHaveBeenCalledWith('Actor type missing: ???');
+
+    setActorTypeCheck('throw');
+    expect(() => actor<number>('SET', 'a')).toThrow('Actor type duplicate: SET_a');
+    expect(() => actor<number>('SET', 'b')).not.toThrow();
+
+    setActorTypeCheck('off');
+    warn.mockClear();
+    actor<number>('SET', 'b');
+    expect(warn).not.toHaveBeenCalled();
+
+    setActorTypeCheck('warn');
+    warn.mockRestore();
+
+    clearActorTypes();
+    expect(getActorTypes()).toEqual([]);
+  });
+
+  test('actorFactory', () => {
+    const actorProducts = actorFactory('UI', 'PRODUCTS');
+    const set_sortAsc = actorProducts<boolean>('SET', 'sortAsc');
+    expect(set_sortAsc.type).toBe('UI_PRODUCTS_SET_sortAsc');
+    expect(set_sortAsc.new(true)).toEqual({type: 'UI_PRODUCTS_SET_sortAsc', value: true});
+    expect(getActorTypes()).toContain('UI_PRODUCTS_SET_sortAsc');
+  });
+
+  test('actor with meta', () => {
+    interface Todo {
+      text: string;
+      done: boolean;
+    }
+    interface TodoMeta {
+      id?: number;
+      timestamp?: number;
+      source?: string;
+    }
+    interface Test {
+      todos?: Todo[];
+      lastSource?: string;
+    }
+
+    const set_done = actor<boolean, TodoMeta>('SetDone', {meta: () => ({timestamp: 1})});
+    expect(set_done.new(true)).toEqual({type: 'SetDone', value: true, meta: {timestamp: 1}});
+    expect(set_done.new(true, {source: 'list'})).toEqual({type: 'SetDone', value: true, meta: {timestamp: 1, source: 'list'}});
+    expect('meta' in actor<number>('SetA').new(1)).toBe(false);
+
+    let nextId = 0;
+    const add_todo = actorFactory('TODOS')<Todo, TodoMeta, string>('ADD', {
+      prepare: (text) => ({value: {text, done: false}, meta: {id: ++nextId}}),
+      meta: () => ({timestamp: 2}),
+    });
+    expect(add_todo.type).toBe('TODOS_ADD');
+    expect(add_todo.new('a')).toEqual({type: 'TODOS_ADD', value: {text: 'a', done: false}, meta: {id: 1, timestamp: 2}});
+
+    const store = createStore(
+      toState$_(<Test>{todos: [], lastSource: null}, {
+        [add_todo.type]: (state: Test, value: Todo, action: Action<Todo, TodoMeta>) => ({
+          todos: [...state.todos, value],
+          lastSource: action.meta.source,
+        }),
+      }),
+    );
+    const actions = <Action<any>[]>[];
+    store.action$.subscribe((_) => actions.push(_));
+    const rxState = new RxState(store);
+
+    rxState.act(add_todo, 'b', null, {source: 'input'});
+    rxState.act_(add_todo)('c', {source: 'shortcut'});
+    expect(rxState.getState()).toEqual({
+      todos: [
+        {text: 'b', done: false},
+        {text: 'c', done: false},
+      ],
+      lastSource: 'shortcut',
+    });
+    expect(actions.map((_) => _.meta)).toEqual([
+      {id: 2, timestamp: 2, source: 'input'},
+      {id: 3, timestamp: 2, source: 'shortcut'},
+    ]);
+    rxState.destroy();
+  });
+
   test('toState$', () => {
     interface Test {
       a?: number;
@@ -273,7 +387,7 @@ describe('rx state', () => {
     const state$ = assemble$(state_parent$, {a: state_nested$});
     state$.subscribe((_) => (state = _));
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
-    expect(action$.observers.length).toBe(2);
+    expect(action$.observers.length).toBe(1);
 
     action$.next({type: 'SomeAction', value: {a: 2}});
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
@@ -316,6 +430,79 @@ describe('rx state', () => {
     action$.complete();
   });
 
+  test('assemble$_ with static values only', () => {
+    interface Test {
+      a?: number;
+      b?: number;
+    }
+    const states = <Test[]>[];
+    let completed = 0;
+    const action$ = new Subject<Action<any>>();
+    assemble$_(<Test>{a: 1})(action$).subscribe({next: (_) => states.push(_), complete: () => ++completed});
+    assemble$_(<Test>{a: 1}, {b: 2})(action$).subscribe({next: (_) => states.push(_), complete: () => ++completed});
+    expect(states).toEqual([{a: 1}, {a: 1, b: 2}]);
+    expect(completed).toBe(2);
+    expect(action$.observers.length).toBe(0);
+
+    const store = createStore(assemble$_(<Test>{a: 1}, {b: 2}));
+    expect(store.getState()).toEqual({a: 1, b: 2});
+    store.destruct();
+  });
+
+  test('assemble$_ with derived parts', () => {
+    interface Test {
+      products?: string[];
+      filter?: string;
+      other?: number;
+      visible?: string[];
+      count?: number;
+    }
+
+    const set_filter = actor<string>('SetFilter');
+    const set_other = actor<number>('SetOther');
+    let computed = 0;
+    const state$ = initReduceAssemble$_(
+      <Test>{products: ['apple', 'banana'], filter: '', other: 0, visible: null},
+      {[set_filter.type]: redSetPropertyIfNotSame_('filter'), [set_other.type]: redSetPropertyIfNotSame_('other')},
+      {
+        count: derived((siblings: Test) => siblings.visible.length),
+        visible: derived((siblings: Test) => {
+          ++computed;
+          return siblings.products.filter((product) => product.includes(siblings.filter));
+        }),
+      },
+    );
+
+    const store = createStore(state$);
+    expect(store.getState()).toEqual({products: ['apple', 'banana'], filter: '', other: 0, visible: ['apple', 'banana'], count: 2});
+    expect(computed).toBe(1);
+
+    const visible = store.getState().visible;
+    store.dispatch(set_other.new(1));
+    expect(store.getState().other).toBe(1);
+    expect(store.getState().visible).toBe(visible);
+    expect(computed).toBe(1);
+
+    store.dispatch(set_filter.new('an'));
+    expect(store.getState()).toEqual({products: ['apple', 'banana'], filter: 'an', other: 1, visible: ['banana'], count: 1});
+    expect(computed).toBe(2);
+    store.destruct();
+
+    interface TestCycle {
+      a?: number;
+      b?: number;
+      c?: number;
+    }
+    let error: Error = null;
+    assemble$(<TestCycle>{a: 1}, {
+      b: derived((siblings: TestCycle) => siblings.c),
+      c: derived((siblings: TestCycle) => siblings.b),
+    }).subscribe({
+      error: (_) => (error = _),
+    });
+    expect(error.message).toBe('assemble$: cycle between derived parts: b -> c -> b');
+  });
+
   test('initReduceAssemble$ with base being just init object', () => {
     interface TestNested {
       a?: number;
@@ -334,7 +521,7 @@ describe('rx state', () => {
 
     state$.subscribe((_) => (state = _));
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
-    expect(action$.observers.length).toBe(2);
+    expect(action$.observers.length).toBe(1);
 
     action$.next({type: 'SomeAction', value: {a: 2}});
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
@@ -362,7 +549,7 @@ describe('rx state', () => {
     const state$ = initReduceAssemble$(action$, <Test>{a: null, b: 'parent'}, {ActSetB: redSetPropertyIfNotSame_('b')}, {a: state_nested$});
     state$.subscribe((_) => (state = _));
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
-    expect(action$.observers.length).toBe(2);
+    expect(action$.observers.length).toBe(1);
 
     action$.next({type: 'SomeAction', value: {a: 2}});
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
@@ -394,7 +581,7 @@ describe('rx state', () => {
     const action$ = new Subject<Action<any>>();
     state$_(action$).subscribe((_) => (state = _));
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
-    expect(action$.observers.length).toBe(2);
+    expect(action$.observers.length).toBe(1);
 
     action$.next({type: 'SomeAction', value: {a: 2}});
     expect(state).toEqual({a: {a: 0, b: 'nested', c: false}, b: 'parent'});
@@ -408,6 +595,308 @@ describe('rx state', () => {
     action$.complete();
   });
 
+  test('assemble$_ emits once per action', () => {
+    interface TestLeaf {
+      c?: number;
+    }
+    interface TestNested {
+      c?: number;
+      leaf?: TestLeaf;
+      other?: TestLeaf;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: TestLeaf;
+      c?: number;
+    }
+
+    const incC = {IncC: (state: any) => ({...state, c: state.c + 1})};
+    const state$_ = initReduceAssemble$_(<Test>{a: null, b: null, c: 0}, incC, {
+      a: initReduceAssemble$_(<TestNested>{c: 0, leaf: null, other: null}, incC, {
+        leaf: toState$_(<TestLeaf>{c: 0}, incC),
+        other: toState$_(<TestLeaf>{c: 0}, {}),
+      }),
+      b: toState$_(<TestLeaf>{c: 0}, {}),
+    });
+
+    const action$ = new Subject<Action<any>>();
+    const late$ = new Subject<TestLeaf>();
+    const states = <Test[]>[];
+    const sub = assemble$_(state$_, {b: () => late$})(action$).subscribe((_) => states.push(_));
+    expect(states).toEqual([]);
+    late$.next({c: -1});
+    expect(states).toEqual([{a: {c: 0, leaf: {c: 0}, other: {c: 0}}, b: {c: -1}, c: 0}]);
+
+    action$.next({type: 'IncC', value: null});
+    expect(states.length).toBe(2);
+    expect(states[1]).toEqual({a: {c: 1, leaf: {c: 1}, other: {c: 0}}, b: {c: -1}, c: 1});
+    expect(states[1].a.other).toBe(states[0].a.other);
+    expect(states[1].b).toBe(states[0].b);
+
+    action$.next({type: 'Other', value: null});
+    expect(states.length).toBe(2);
+
+    action$.next(replace_state.new({a: {leaf: {c: 5}}}));
+    expect(states.length).toBe(3);
+    expect(states[2].a.leaf).toEqual({c: 5});
+    expect(states[2].a.other).toBe(states[0].a.other);
+
+    late$.next({c: -2});
+    expect(states.length).toBe(4);
+
+    sub.unsubscribe();
+    expect(action$.observers.length).toBe(0);
+  });
+
+  test('assemble$ and initReduceAssemble$ emit once per action', () => {
+    interface TestLeaf {
+      c?: number;
+    }
+    interface TestNested {
+      c?: number;
+      leaf?: TestLeaf;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: TestLeaf;
+      c?: number;
+      d?: TestLeaf;
+    }
+
+    const incC = {IncC: (state: any) => ({...state, c: state.c + 1})};
+    const action$ = new Subject<Action<any>>();
+    const external$ = new BehaviorSubject<TestLeaf>({c: -1});
+    const states = <Test[]>[];
+    initReduceAssemble$(action$, <Test>{a: null, b: null, c: 0, d: null}, incC, {
+      a: initReduceAssemble$(action$, <TestNested>{c: 0, leaf: null}, incC, {leaf: toState$(action$, <TestLeaf>{c: 0}, incC)}),
+      b: assemble$_(<TestLeaf>{c: 0}, {c: toState$_(0, {IncC: (state: number) => state + 1})})(action$),
+      d: external$,
+    }).subscribe((_) => states.push(_));
+    expect(states).toEqual([{a: {c: 0, leaf: {c: 0}}, b: {c: 0}, c: 0, d: {c: -1}}]);
+    expect(action$.observers.length).toBe(1);
+
+    action$.next({type: 'IncC', value: null});
+    expect(states.length).toBe(2);
+    expect(states[1]).toEqual({a: {c: 1, leaf: {c: 1}}, b: {c: 1}, c: 1, d: {c: -1}});
+    expect(states[1].d).toBe(states[0].d);
+
+    action$.next(replace_state.new({a: {leaf: {c: 5}}, b: {c: 6}}));
+    expect(states.length).toBe(3);
+    expect(states[2]).toEqual({a: {leaf: {c: 5}}, b: {c: 6}, d: {c: -1}});
+    expect(states[2].a.leaf).not.toBe(states[1].a.leaf);
+
+    external$.next({c: -2});
+    expect(states.length).toBe(4);
+    expect(states[3].a).toBe(states[2].a);
+
+    action$.complete();
+  });
+
+  test('replace_state', () => {
+    interface TestNested {
+      c?: number;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: string;
+    }
+
+    const action$ = new Subject<Action<any>>();
+    const state$ = initReduceAssemble$_(
+      <Test>{a: null, b: 'parent'},
+      {ActSetB: redSetPropertyIfNotSame_('b')},
+      {
+        a: initReduceAssemble$_(<TestNested>{c: 0}, {ActSetC: redSetPropertyIfNotSame_('c')}),
+      },
+    )(action$);
+
+    let state = <Test>null;
+    state$.subscribe((_) => (state = _));
+
+    action$.next(replace_state.new({a: {c: 1}, b: 'replaced'}));
+    expect(state).toEqual({a: {c: 1}, b: 'replaced'});
+
+    action$.next({type: 'ActSetC', value: 2});
+    expect(state).toEqual({a: {c: 2}, b: 'replaced'});
+
+    action$.next(replace_state.new({b: 'only b'}));
+    expect(state).toEqual({a: {c: 2}, b: 'only b'});
+
+    action$.next(replace_state.new(undefined));
+    expect(state).toEqual({a: {c: 2}, b: 'only b'});
+
+    action$.complete();
+  });
+
+  test('replace_state and apply_patch with assemble$ and initReduceAssemble$', () => {
+    interface TestNested {
+      c?: number;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: string;
+    }
+
+    const set_b = actor<string>('SetB');
+    const set_c = actor<number>('SetC');
+    const createState = (action$: Subject<Action<any>> | Observable<Action<any>>) =>
+      initReduceAssemble$(
+        action$,
+        <Test>{a: null, b: 'parent'},
+        {[set_b.type]: redSetPropertyIfNotSame_('b')},
+        {
+          a: toState$(action$, <TestNested>{c: 0}, {[set_c.type]: redSetPropertyIfNotSame_('c')}),
+        },
+      );
+
+    const action$ = new Subject<Action<any>>();
+    let state = <Test>null;
+    const subscription = assemble$(createState(action$), {}).subscribe((_) => (state = _));
+    action$.next(replace_state.new({a: {c: 1}, b: 'replaced'}));
+    expect(state).toEqual({a: {c: 1}, b: 'replaced'});
+    action$.next(apply_patch.new([{op: 'replace', path: '/a/c', value: 2}]));
+    expect(state).toEqual({a: {c: 2}, b: 'replaced'});
+    subscription.unsubscribe();
+
+    const store = createStore(createState, {preloadedState: {b: 'pre'}});
+    expect(store.getState()).toEqual({a: {c: 0}, b: 'pre'});
+    store.dispatch(apply_patch.new([{op: 'replace', path: '/a/c', value: 1}]));
+    expect(store.getState()).toEqual({a: {c: 1}, b: 'pre'});
+    const snapshot = store.snapshot();
+
+    expect(() =>
+      store.transaction(() => {
+        store.dispatch(set_c.new(2));
+        throw new Error('abort');
+      }),
+    ).toThrowError('abort');
+    expect(store.getState()).toEqual({a: {c: 1}, b: 'pre'});
+
+    store.dispatch(set_b.new('changed'));
+    store.dispatch(set_c.new(3));
+    store.restore(snapshot);
+    expect(store.getState()).toEqual({a: {c: 1}, b: 'pre'});
+    store.dispatch(set_c.new(4));
+    expect(store.getState()).toEqual({a: {c: 4}, b: 'pre'});
+    store.destruct();
+  });
+
+  test('deepFreeze', () => {
+    const value = {a: {b: [{c: 1}]}};
+    expect(deepFreeze(value)).toBe(value);
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.a.b[0])).toBe(true);
+    expect(deepFreeze(null)).toBe(null);
+    expect(deepFreeze(1)).toBe(1);
+  });
+
+  test('createStore with dev checks', () => {
+    interface Test {
+      a?: number;
+      list?: number[];
+    }
+
+    const set_a = actor<number>('SetA');
+    const push_list = actor<number>('PushList');
+    const push_list_mutating = actor<number>('PushListMutating');
+    const set_a_random = actor<number>('SetARandom');
+    const init = <Test>{a: 0, list: []};
+    const state$ = toState$_(init, {
+      [set_a.type]: redSetPropertyIfNotSame_('a'),
+      [push_list.type]: (state, value: number) => ({...state, list: [...state.list, value]}),
+      [push_list_mutating.type]: (state, value: number) => {
+        state.list.push(value);
+        return state;
+      },
+      [set_a_random.type]: (state, value: number) => ({...state, a: value + Math.random()}),
+    });
+
+    const violations = [];
+    const store = createStore(state$, {devChecks: {report: (violation) => violations.push(violation)}});
+
+    expect(Object.isFrozen(store.getState())).toBe(true);
+    expect(Object.isFrozen(init)).toBe(false);
+
+    const value = {a: 1};
+    store.dispatch({type: 'SetNothing', value});
+    expect(Object.isFrozen(value)).toBe(true);
+
+    store.dispatch(set_a.new(1));
+    store.dispatch(push_list.new(1));
+    expect(store.getState()).toEqual({a: 1, list: [1]});
+    expect(Object.isFrozen(store.getState().list)).toBe(true);
+    expect(violations).toEqual([]);
+
+    store.dispatch(push_list_mutating.new(2));
+    expect(store.getState()).toEqual({a: 1, list: [1]});
+    expect(violations).toEqual([
+      {check: 'mutation', actionType: push_list_mutating.type, message: expect.stringContaining('mutated state')},
+    ]);
+
+    violations.length = 0;
+    store.dispatch(set_a_random.new(2));
+    expect(violations).toEqual([
+      {check: 'determinism', actionType: set_a_random.type, message: 'Reducer returned non-deterministic state on action: SetARandom'},
+    ]);
+
+    store.destruct();
+
+    const read_null = actor<void>('ReadNull');
+    const storeFailing = createStore(
+      toState$_(<{user?: {name: string}}>{user: null}, {[read_null.type]: (state) => ({...state, name: state.user.name})}),
+      {devChecks: {report: (violation) => violations.push(violation)}, errorPolicy: 'skip'},
+    );
+    const errors = [];
+    storeFailing.error$.subscribe((_) => errors.push(_.error));
+    violations.length = 0;
+    storeFailing.dispatch(read_null.new());
+    expect(violations).toEqual([]);
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toBeInstanceOf(TypeError);
+    expect(errors[0].message).not.toContain('mutated');
+    storeFailing.destruct();
+
+    const state_unfrozen$ = toState$_(<Test>{a: 0, list: []}, {
+      [push_list_mutating.type]: (state, val: number) => {
+        state.list.push(val);
+        return state;
+      },
+    });
+
+    const storeNoFreeze = createStore(state_unfrozen$, {devChecks: {freeze: false}});
+    let error: Error = null;
+    storeNoFreeze.state$.subscribe({error: (_) => (error = _)});
+    storeNoFreeze.dispatch(push_list_mutating.new(3));
+    expect(error.message).toBe('Reducer mutated state on action: PushListMutating');
+    storeNoFreeze.destruct();
+
+    const storeUnchecked = createStore(state_unfrozen$);
+    expect(Object.isFrozen(storeUnchecked.getState().list)).toBe(false);
+    storeUnchecked.dispatch(push_list_mutating.new(4));
+    expect(storeUnchecked.getState().list).toEqual([3, 4]);
+    storeUnchecked.destruct();
+
+    const action$ = new Subject<Action<any>>();
+    const initChecked = <Test>{a: 0, list: []};
+    let stateChecked = <Test>null;
+    violations.length = 0;
+    toState$(
+      action$,
+      initChecked,
+      (state, action) => {
+        state.list.push(action.value);
+        return state;
+      },
+      null,
+      {report: (violation) => violations.push(violation)},
+    ).subscribe((_) => (stateChecked = _));
+    expect(Object.isFrozen(stateChecked)).toBe(true);
+    expect(Object.isFrozen(initChecked)).toBe(false);
+    action$.next(push_list_mutating.new(5));
+    expect(stateChecked).toEqual({a: 0, list: []});
+    expect(violations.map((_) => _.check)).toEqual(['mutation']);
+  });
+
   test('createStore', () => {
     interface TestNested {
       e?: string;
@@ -457,6 +946,671 @@ describe('rx state', () => {
     store.destruct();
   });
 
+  test('createStore with middlewares', () => {
+    interface Test {
+      a?: number;
+      b?: string;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<string>('SetB');
+    const blocked = actor<number>('Blocked');
+    const state$ = toState$_(<Test>{a: 0, b: ''}, {
+      [set_a.type]: redSetPropertyIfNotSame_('a'),
+      [set_b.type]: redSetPropertyIfNotSame_('b'),
+    });
+
+    const log = <string[]>[];
+    const logger: Middleware<Test> = (store) => (next) => (action) => {
+      log.push('before ' + action.type + ' ' + store.getState().a);
+      next(action);
+      log.push('after ' + action.type + ' ' + store.getState().a);
+    };
+    const blocker: Middleware<Test> = () => (next) => (action) => (action.type === blocked.type ? null : next(action));
+    const doubler: Middleware<Test> = () => (next) => (action) => next(action.type === set_a.type ? set_a.new(action.value * 2) : action);
+    const follower: Middleware<Test> = (store) => (next) => (action) => {
+      next(action);
+      if (action.type === set_a.type) {
+        store.dispatch(set_b.new('a is ' + store.getState().a));
+      }
+    };
+
+    const store = createStore(state$, {middlewares: [logger, blocker, doubler, follower]});
+    expect(store.getState()).toEqual({a: 0, b: ''});
+
+    store.dispatch(set_a.new(2));
+    expect(store.getState()).toEqual({a: 4, b: 'a is 4'});
+    expect(log).toEqual(['before SetA 0', 'before SetB 4', 'after SetB 4', 'after SetA 4']);
+
+    log.length = 0;
+    store.dispatch(blocked.new(1));
+    expect(store.getState()).toEqual({a: 4, b: 'a is 4'});
+    expect(log).toEqual(['before Blocked 4', 'after Blocked 4']);
+
+    const rxState = new RxState(store);
+    rxState.act_(set_a)(5);
+    expect(rxState.getState()).toEqual({a: 10, b: 'a is 10'});
+
+    rxState.destroy();
+  });
+
+  test('createStore with effects', () => {
+    interface Test {
+      a?: number;
+      b?: string;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<string>('SetB');
+    const state$ = toState$_(<Test>{a: 0, b: ''}, {
+      [set_a.type]: redSetPropertyIfNotSame_('a'),
+      [set_b.type]: redSetPropertyIfNotSame_('b'),
+    });
+
+    const store = createStore(state$);
+
+    const describe_a: Effect<Test> = (action$, st$) =>
+      action$.pipe(
+        filter((action) => action.type === set_a.type),
+        withLatestFrom(st$),
+        map(([action, state]) => set_b.new('a is ' + state.a)),
+      );
+    const failing: Effect<Test> = (action$) =>
+      action$.pipe(
+        map((action) => {
+          if (action.value === 13) {
+            throw new Error('unlucky');
+          }
+          return action;
+        }),
+        filter(() => false),
+      );
+
+    const errors = [];
+    store.addEffect(describe_a);
+    store.addEffect(failing, {onError: (error) => errors.push(error.message), resubscribeLimit: 1});
+
+    store.dispatch(set_a.new(1));
+    expect(store.getState()).toEqual({a: 1, b: 'a is 1'});
+
+    store.dispatch(set_a.new(13));
+    expect(store.getState()).toEqual({a: 13, b: 'a is 13'});
+    expect(errors).toEqual(['unlucky']);
+
+    store.dispatch(set_a.new(13));
+    store.dispatch(set_a.new(13));
+    expect(errors).toEqual(['unlucky', 'unlucky']);
+
+    store.dispatch(set_a.new(2));
+    expect(store.getState()).toEqual({a: 2, b: 'a is 2'});
+
+    const rxState = new RxState(store);
+    const effected = [];
+    const subscription = rxState.effect((action$) => action$.pipe(filter((action) => !!effected.push(action.type) && false)));
+    rxState.act(set_b, 'b');
+    expect(effected).toEqual([set_b.type]);
+
+    rxState.destroy();
+    expect(subscription.closed).toBe(true);
+  });
+
+  test('createStore with transactions', () => {
+    interface TestNested {
+      e?: string;
+    }
+    interface Test {
+      a?: number;
+      b?: string;
+      d?: TestNested;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<string>('SetB');
+    const set_e = actor<string>('SetE');
+    const state$ = assemble$_(
+      toState$_(<Test>{a: 0, b: '', d: null}, {
+        [set_a.type]: redSetPropertyIfNotSame_('a'),
+        [set_b.type]: redSetPropertyIfNotSame_('b'),
+      }),
+      {d: toState$_(<TestNested>{e: ''}, {[set_e.type]: redSetPropertyIfNotSame_('e')})},
+    );
+
+    const store = createStore(state$);
+    const states = <Test[]>[];
+    store.state$.subscribe((_) => states.push(_));
+    states.length = 0;
+
+    store.dispatchBatch([set_a.new(1), set_b.new('b'), set_e.new('e')]);
+    expect(states).toEqual([{a: 1, b: 'b', d: {e: 'e'}}]);
+
+    states.length = 0;
+    store.transaction(() => {
+      store.dispatch(set_a.new(2));
+      expect(store.getState()).toEqual({a: 2, b: 'b', d: {e: 'e'}});
+      store.transaction(() => store.dispatch(set_b.new('nested')));
+      expect(states).toEqual([]);
+    });
+    expect(states).toEqual([{a: 2, b: 'nested', d: {e: 'e'}}]);
+
+    states.length = 0;
+    store.transaction(() => {
+      store.dispatch(set_a.new(3));
+      expect(() =>
+        store.transaction(() => {
+          store.dispatch(set_e.new('aborted'));
+          throw new Error('abort');
+        }),
+      ).toThrow('abort');
+    });
+    expect(states).toEqual([{a: 3, b: 'nested', d: {e: 'e'}}]);
+
+    states.length = 0;
+    expect(() =>
+      store.transaction(() => {
+        store.dispatch(set_a.new(4));
+        store.dispatch(set_e.new('aborted'));
+        throw new Error('abort');
+      }),
+    ).toThrow('abort');
+    expect(states).toEqual([]);
+    expect(store.getState()).toEqual({a: 3, b: 'nested', d: {e: 'e'}});
+
+    store.transaction(() => null);
+    expect(states).toEqual([]);
+    store.destruct();
+
+    const rxState = new RxState(createStore(state$));
+    const rxStates = <Test[]>[];
+    rxState.state$.subscribe((_) => rxStates.push(_));
+    rxStates.length = 0;
+    rxState.transaction(() => {
+      rxState.act(set_a, 5);
+      rxState.act(set_b, 'rx');
+    });
+    expect(rxStates).toEqual([{a: 5, b: 'rx', d: {e: ''}}]);
+
+    rxState.destroy();
+  });
+
+  test('createStore with aborted transaction', () => {
+    interface Test {
+      a?: number;
+      b?: string;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<string>('SetB');
+    const swallowReplace: Middleware<Test> = () => (next) => (action) => (action.type === replace_state.type ? null : next(action));
+    const handlers = reducers_<Test>({[set_a.type]: redSetPropertyIfNotSame_('a'), [set_b.type]: redSetPropertyIfNotSame_('b')});
+    const reduced = <string[]>[];
+    const store = createStore(
+      toState$_(<Test>{a: 0, b: ''}, (state, action) => {
+        reduced.push(action.type);
+        return handlers(state, action);
+      }),
+      {middlewares: [swallowReplace]},
+    );
+    const actions = <string[]>[];
+    store.action$.subscribe((action) => actions.push(`${action.type}:${action.value}:${store.getState().a}`));
+
+    expect(() =>
+      store.transaction(() => {
+        store.dispatch(set_a.new(9));
+        throw new Error('abort');
+      }),
+    ).toThrowError('abort');
+    expect(store.getState()).toEqual({a: 0, b: ''});
+    expect(actions).toEqual([]);
+    expect(reduced).toEqual([set_a.type]);
+
+    store.transaction(() => {
+      store.dispatch(set_a.new(1));
+      try {
+        store.transaction(() => {
+          store.dispatch(set_b.new('aborted'));
+          throw new Error('abort');
+        });
+      } catch {
+        store.dispatch(set_b.new('b'));
+      }
+      expect(actions).toEqual([]);
+    });
+    expect(store.getState()).toEqual({a: 1, b: 'b'});
+    expect(actions).toEqual(['SetA:1:1', 'SetB:b:1']);
+
+    store.destruct();
+  });
+
+  test('createStore with slices', () => {
+    interface TestNested {
+      e?: string;
+    }
+    interface Test {
+      a?: number;
+      d?: TestNested;
+      lazy?: TestNested;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_e = actor<string>('SetE');
+    const set_lazy = actor<string>('SetLazy');
+    const state$ = assemble$_(toState$_(<Test>{a: 0, d: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {
+      d: toState$_(<TestNested>{e: ''}, {[set_e.type]: redSetPropertyIfNotSame_('e')}),
+    });
+
+    const rxState = new RxState(createStore(state$));
+    const store = rxState.dbgGetStore();
+    const states = <Test[]>[];
+    rxState.state$.subscribe((_) => states.push(_));
+
+    rxState.act(set_a, 1);
+    rxState.act(set_e, 'e');
+
+    store.addSlice('lazy', toState$_(<TestNested>{e: 'lazy'}, {[set_lazy.type]: redSetPropertyIfNotSame_('e')}));
+    expect(store.getState()).toEqual({a: 1, d: {e: 'e'}, lazy: {e: 'lazy'}});
+    expect(() => store.addSlice('lazy', toState$_(<TestNested>{e: ''}, {}))).toThrow();
+
+    rxState.act(set_lazy, 'changed');
+    rxState.act(set_a, 2);
+    expect(rxState.getState()).toEqual({a: 2, d: {e: 'e'}, lazy: {e: 'changed'}});
+
+    store.removeSlice('lazy');
+    store.removeSlice('unknown');
+    expect(rxState.getState()).toEqual({a: 2, d: {e: 'e'}});
+
+    rxState.act(set_lazy, 'ignored');
+    rxState.act(set_e, 'still');
+    expect(states).toEqual([
+      {a: 0, d: {e: ''}},
+      {a: 1, d: {e: ''}},
+      {a: 1, d: {e: 'e'}},
+      {a: 1, d: {e: 'e'}, lazy: {e: 'lazy'}},
+      {a: 1, d: {e: 'e'}, lazy: {e: 'changed'}},
+      {a: 2, d: {e: 'e'}, lazy: {e: 'changed'}},
+      {a: 2, d: {e: 'e'}},
+      {a: 2, d: {e: 'still'}},
+    ]);
+
+    rxState.destroy();
+  });
+
+  test('createStore with slices keeps the assembled state subscribed', () => {
+    interface TestNested {
+      c?: number;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: string;
+      lazy?: number;
+    }
+
+    const set_b = actor<string>('SetB');
+    const set_c = actor<number>('SetC');
+    const state$ = initReduceAssemble$_(
+      <Test>{a: null, b: 'parent'},
+      {[set_b.type]: redSetPropertyIfNotSame_('b')},
+      {a: initReduceAssemble$_(<TestNested>{c: 0}, {[set_c.type]: redSetPropertyIfNotSame_('c')})},
+    );
+    let subscribed = 0;
+    const store = createStore<Test>((action$) =>
+      defer(() => {
+        ++subscribed;
+        return state$(action$);
+      }),
+    );
+
+    store.dispatch(set_c.new(1));
+    store.dispatch(set_b.new('b'));
+    store.addSlice('lazy', toState$_(5, {}));
+    expect(store.getState()).toEqual({a: {c: 1}, b: 'b', lazy: 5});
+
+    store.dispatch(set_c.new(2));
+    expect(store.getState()).toEqual({a: {c: 2}, b: 'b', lazy: 5});
+
+    store.dispatch(replace_state.new({a: {c: 3}, b: 'replaced', lazy: 6}));
+    expect(store.getState()).toEqual({a: {c: 3}, b: 'replaced', lazy: 6});
+
+    store.removeSlice('lazy');
+    expect(store.getState()).toEqual({a: {c: 3}, b: 'replaced'});
+    expect(subscribed).toBe(1);
+
+    store.destruct();
+  });
+
+  test('createStore with listeners after addSlice', () => {
+    interface Test {
+      a?: number;
+      lazy?: number;
+    }
+
+    const set_a = actor<number>('SetA');
+    const echo_a = actor<number>('EchoA');
+    const store = createStore(toState$_(<Test>{a: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a')}));
+
+    const sent = <[string, Test][]>[];
+    connectDevTools(store, {
+      extension: {connect: () => ({init: () => null, send: (action, state) => sent.push([action.type, state]), subscribe: () => null})},
+    });
+    const echoed = <number[]>[];
+    store.addEffect((action$, st$) =>
+      action$.pipe(
+        filter((action) => action.type === set_a.type),
+        withLatestFrom(st$),
+        map(([, state]) => echo_a.new(state.a)),
+      ),
+    );
+    store.action$.pipe(filter((action) => action.type === echo_a.type)).subscribe((action) => echoed.push(action.value));
+
+    store.dispatch(set_a.new(1));
+    store.addSlice('lazy', toState$_(5, {}));
+    store.dispatch(set_a.new(2));
+
+    expect(sent.filter(([type]) => type === set_a.type)).toEqual([
+      [set_a.type, {a: 1}],
+      [set_a.type, {a: 2, lazy: 5}],
+    ]);
+    expect(echoed).toEqual([1, 2]);
+
+    store.destruct();
+  });
+
+  test('createStore with re-entrant dispatch', () => {
+    interface Test {
+      a?: number;
+      b?: number;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<number>('SetB');
+    const store = createStore(
+      toState$_(<Test>{a: 0, b: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a'), [set_b.type]: redSetPropertyIfNotSame_('b')}),
+    );
+
+    const first = <Test[]>[];
+    const second = <Test[]>[];
+    const actions = <Action<any>[]>[];
+    store.state$.subscribe((state) => {
+      first.push(state);
+      if (state.a === 1 && state.b === 0) {
+        store.dispatch(set_b.new(1));
+        store.dispatch(set_a.new(2));
+        expect(store.getState()).toBe(state);
+      }
+    });
+    store.state$.subscribe((state) => second.push(state));
+    store.action$.subscribe((action) => actions.push(action));
+
+    store.dispatch(set_a.new(1));
+    const expected = [
+      {a: 0, b: 0},
+      {a: 1, b: 0},
+      {a: 1, b: 1},
+      {a: 2, b: 1},
+    ];
+    expect(first).toEqual(expected);
+    expect(second).toEqual(expected);
+    expect(actions).toEqual([set_a.new(1), set_b.new(1), set_a.new(2)]);
+
+    store.dispatch(set_b.new(2));
+    expect(store.getState()).toEqual({a: 2, b: 2});
+    store.destruct();
+  });
+
+  test('createStore with re-entrant transaction', () => {
+    interface Test {
+      a?: number;
+      b?: number;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_b = actor<number>('SetB');
+    const store = createStore(
+      toState$_(<Test>{a: 0, b: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a'), [set_b.type]: redSetPropertyIfNotSame_('b')}),
+    );
+
+    const states = <Test[]>[];
+    const actions = <Action<any>[]>[];
+    store.state$.subscribe((state) => {
+      states.push(state);
+      if (state.a === 1 && state.b === 0) {
+        store.dispatchBatch([set_b.new(1), set_b.new(2), set_a.new(2)]);
+        expect(store.getState()).toBe(state);
+      }
+    });
+    store.action$.subscribe((action) => actions.push(action));
+
+    store.dispatch(set_a.new(1));
+    expect(states).toEqual([
+      {a: 0, b: 0},
+      {a: 1, b: 0},
+      {a: 2, b: 2},
+    ]);
+    expect(actions).toEqual([set_a.new(1), set_b.new(1), set_b.new(2), set_a.new(2)]);
+
+    const errors = [];
+    store.state$.pipe(filter((state) => state.b === 3)).subscribe(() => {
+      try {
+        store.transaction(() => {
+          store.dispatch(set_a.new(3));
+          throw new Error('abort');
+        });
+      } catch (error) {
+        errors.push(error.message);
+      }
+    });
+    store.dispatch(set_b.new(3));
+    expect(errors).toEqual(['abort']);
+    expect(store.getState()).toEqual({a: 2, b: 3});
+    store.destruct();
+  });
+
+  test('createStore with scheduler', () => {
+    const set_a = actor<number>('SetA');
+    const scheduler = new VirtualTimeScheduler();
+    const store = createStore(toState$_({a: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {scheduler});
+
+    const states = [];
+    store.state$.subscribe((state) => {
+      states.push(state);
+      if (state.a === 1) {
+        store.dispatch(set_a.new(2));
+      }
+    });
+    store.dispatch(set_a.new(1));
+    expect(states).toEqual([]);
+    expect(store.getState()).toEqual({a: 1});
+
+    scheduler.flush();
+    expect(states).toEqual([{a: 0}, {a: 1}, {a: 2}]);
+    store.destruct();
+  });
+
+  test('createStore with asapScheduler', (done) => {
+    const set_a = actor<number>('SetA');
+    const store = createStore(toState$_({a: 0}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {scheduler: asapScheduler});
+
+    const states = [];
+    store.state$.subscribe((state) => states.push(state));
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_a.new(2));
+    expect(states).toEqual([]);
+    Promise.resolve().then(() => {
+      expect(states).toEqual([{a: 0}, {a: 1}, {a: 2}]);
+      store.destruct();
+      done();
+    });
+  });
+
+  test('createStore with error policies', () => {
+    interface TestNested {
+      e?: string;
+    }
+    interface Test {
+      a?: number;
+      d?: TestNested;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_e = actor<string>('SetE');
+    const fail = new Error('fail');
+    const set_e_failing = (state: TestNested, value: string) => {
+      if (value === 'fail') {
+        throw fail;
+      }
+      return {...state, e: value};
+    };
+    const state$ = assemble$_(toState$_(<Test>{a: 0, d: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {
+      d: toState$_(<TestNested>{e: ''}, {[set_e.type]: set_e_failing}),
+    });
+
+    const skipping = createStore(state$, {errorPolicy: 'skip'});
+    const errors = [];
+    skipping.error$.subscribe((_) => errors.push(_));
+    skipping.dispatch(set_e.new('e'));
+    skipping.dispatch(set_e.new('fail'));
+    skipping.dispatch(set_a.new(1));
+    expect(skipping.getState()).toEqual({a: 1, d: {e: 'e'}});
+    expect(errors).toEqual([{error: fail, action: set_e.new('fail'), key: 'd'}]);
+
+    const resetting = createStore(state$, {errorPolicy: (error) => (error.key === 'd' ? 'reset' : 'rethrow')});
+    resetting.dispatch(set_e.new('e'));
+    resetting.dispatch(set_a.new(1));
+    resetting.dispatch(set_e.new('fail'));
+    expect(resetting.getState()).toEqual({a: 1, d: {e: ''}});
+
+    const rethrowing = createStore(state$);
+    const stateErrors = [];
+    rethrowing.state$.subscribe({error: (_) => stateErrors.push(_)});
+    rethrowing.error$.subscribe((_) => errors.push(_));
+    rethrowing.dispatch(set_e.new('fail'));
+    expect(stateErrors).toEqual([fail]);
+    expect(errors.length).toBe(2);
+
+    [skipping, resetting, rethrowing].forEach((store) => store.destruct());
+  });
+
+  test('createStore with error policies in transactions', () => {
+    interface Test {
+      a?: number;
+    }
+
+    const set_a = actor<number>('SetA');
+    const boom = actor<void>('Boom');
+    const fail = new Error('fail');
+    const state$ = toState$_(<Test>{a: 0}, {
+      [set_a.type]: redSetPropertyIfNotSame_('a'),
+      [boom.type]: () => {
+        throw fail;
+      },
+    });
+
+    const rethrowing = createStore(state$);
+    const states = [];
+    const stateErrors = [];
+    const actions = [];
+    rethrowing.state$.subscribe({next: (_) => states.push(_), error: (_) => stateErrors.push(_)});
+    rethrowing.action$.subscribe((_) => actions.push(_.type));
+    expect(() => rethrowing.dispatchBatch([set_a.new(1), boom.new(), set_a.new(2)])).toThrow(fail);
+    expect(rethrowing.getState()).toEqual({a: 0});
+    expect(states).toEqual([{a: 0}]);
+    expect(actions).toEqual([]);
+    rethrowing.dispatch(set_a.new(3));
+    expect(states).toEqual([{a: 0}, {a: 3}]);
+    expect(stateErrors).toEqual([]);
+
+    const skipping = createStore(state$, {errorPolicy: 'skip'});
+    const errors = [];
+    skipping.error$.subscribe((_) => errors.push(_.error));
+    skipping.transaction(() => {
+      skipping.dispatch(set_a.new(1));
+      skipping.dispatchBatch([set_a.new(2), boom.new(), set_a.new(3)]);
+      expect(skipping.getState()).toEqual({a: 1});
+    });
+    expect(skipping.getState()).toEqual({a: 1});
+    expect(errors).toEqual([fail]);
+
+    let deferred = false;
+    skipping.state$.subscribe((state) => {
+      if (state.a === 4 && !deferred) {
+        deferred = true;
+        skipping.dispatchBatch([set_a.new(5), boom.new(), set_a.new(6)]);
+      }
+    });
+    skipping.dispatch(set_a.new(4));
+    expect(skipping.getState()).toEqual({a: 4});
+    expect(errors).toEqual([fail, fail]);
+
+    [rethrowing, skipping].forEach((store) => store.destruct());
+  });
+
+  test('createStore with preloaded state and snapshots', () => {
+    interface TestNested {
+      e?: string;
+      f?: string[];
+    }
+    interface Test {
+      a?: number;
+      d?: TestNested;
+      at?: Date;
+      lazy?: TestNested;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_e = actor<string>('SetE');
+    const state$ = assemble$_(toState$_(<Test>{a: 0, d: null, at: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {
+      d: toState$_(<TestNested>{e: '', f: ['init']}, {[set_e.type]: redSetPropertyIfNotSame_('e')}),
+    });
+
+    const server = createStore(state$, {preloadedState: {d: {e: 'server'}}});
+    const states = <Test[]>[];
+    server.state$.subscribe((_) => states.push(_));
+    expect(server.getState()).toEqual({a: 0, d: {e: 'server', f: ['init']}, at: null});
+    server.dispatch(set_a.new(1));
+    server.dispatch(replace_state.new({...server.getState(), at: new Date(0)}));
+    expect(states).toEqual([
+      {a: 0, d: {e: 'server', f: ['init']}, at: null},
+      {a: 1, d: {e: 'server', f: ['init']}, at: null},
+      {a: 1, d: {e: 'server', f: ['init']}, at: new Date(0)},
+    ]);
+
+    const snapshot = server.snapshot();
+    const client = createStore(state$, {preloadedState: deserializeSnapshot<Test>(snapshot)});
+    expect(client.getState()).toEqual({a: 1, d: {e: 'server', f: ['init']}, at: new Date(0)});
+
+    const other = createStore(state$);
+    other.dispatch(set_e.new('other'));
+    other.restore(snapshot);
+    expect(other.getState()).toEqual(server.getState());
+    other.dispatch(set_e.new('restored'));
+    expect(other.getState().d).toEqual({e: 'restored', f: ['init']});
+
+    const custom = createStore(state$, {serializers: []});
+    expect(() => custom.restore(snapshot)).toThrow('Snapshot serializer missing: Date');
+
+    const fail_e = actor<void>('FailE');
+    const resetting = createStore<Test>(
+      assemble$_(toState$_(<Test>{a: 0, d: null, at: null}, {}), {
+        d: toState$_(<TestNested>{e: '', f: ['init']}, {
+          [set_e.type]: redSetPropertyIfNotSame_('e'),
+          [fail_e.type]: () => {
+            throw new Error('fail');
+          },
+        }),
+      }),
+      {preloadedState: {d: {e: 'preloaded'}, lazy: {e: 'lazy'}}, errorPolicy: 'reset'},
+    );
+    const resettingStates = <Test[]>[];
+    resetting.state$.subscribe((_) => resettingStates.push(_));
+    resetting.dispatch(set_e.new('changed'));
+    resetting.dispatch(fail_e.new());
+    expect(resettingStates.map((_) => _.d.e)).toEqual(['preloaded', 'changed', 'preloaded']);
+
+    resetting.addSlice('lazy', toState$_(<TestNested>{e: '', f: []}, {}));
+    expect(resetting.getState()).toEqual({a: 0, d: {e: 'preloaded', f: ['init']}, at: null, lazy: {e: 'lazy', f: []}});
+
+    [server, client, other, custom, resetting].forEach((store) => store.destruct());
+  });
+
   test('RxState', (done) => {
     interface TestNested {
       e?: string;
@@ -530,4 +1684,40 @@ describe('rx state', () => {
     state$.complete();
     expect(results).toEqual([1, 2]);
   });
+
+  test('watch with equal', () => {
+    const state$ = new BehaviorSubject({a: {b: 1, c: 2}});
+    const results = [];
+    state$.pipe(watch((st) => st.a, deepEqual)).subscribe((ii) => results.push(ii));
+    state$.next({a: {c: 2, b: 1}});
+    state$.next({a: {b: 2, c: 2}});
+    state$.complete();
+    expect(results).toEqual([
+      {b: 1, c: 2},
+      {b: 2, c: 2},
+    ]);
+  });
+
+  test('toState$ and assemble$ with equal', () => {
+    interface TestNested {
+      c?: number;
+    }
+    interface Test {
+      a?: TestNested;
+      b?: string;
+    }
+
+    const action$ = new Subject<Action<any>>();
+    const states = [];
+    const nested$ = toState$(action$, <TestNested>{c: 0}, {ActSetNested: redSet}, deepEqual);
+    assemble$(<Test>{a: null, b: ''}, {a: nested$}, deepEqual).subscribe((_) => states.push(_));
+
+    action$.next({type: 'ActSetNested', value: {c: 0}});
+    action$.next({type: 'ActSetNested', value: {c: 1}});
+    action$.complete();
+    expect(states).toEqual([
+      {a: {c: 0}, b: ''},
+      {a: {c: 1}, b: ''},
+    ]);
+  });
 });
@@ -1,35 +1,181 @@
-import {BehaviorSubject, combineLatest, isObservable, merge, Observable, of, OperatorFunction, Subject} from 'rxjs';
-import {distinctUntilChanged, map, scan, shareReplay, takeUntil, startWith} from 'rxjs/operators';
+import {
+  BehaviorSubject,
+  concat,
+  defer,
+  EMPTY,
+  isObservable,
+  merge,
+  Observable,
+  of,
+  OperatorFunction,
+  PartialObserver,
+  ReplaySubject,
+  SchedulerLike,
+  Subject,
+  Subscription,
+} from 'rxjs';
+import {catchError, distinctUntilChanged, filter, map, observeOn, shareReplay, takeUntil, startWith} from 'rxjs/operators';
+import {AsyncActor} from './async-actor';
+import {deepEqual, Equality} from './equal';
+import {applyPatch, PatchOperation, toPointerToken} from './patch';
+import {deepMerge, DeepPartial, defaultSerializers, deserializeSnapshot, serializeSnapshot, SnapshotSerializer} from './snapshot';
 
-export interface Action<T> {
-  /** Make sure that the `type` is globally unique. */
+export interface Action<T, M = any> {
+  /** Make sure that the `type` is globally unique (checked for `actor` created types, see `setActorTypeCheck`). */
   type: string;
   value: T;
+  /** Optional metadata e.g. timestamps or correlation ids, not reduced by default (see `ActorOptions`). */
+  meta?: M;
 }
 
 export type ActionStream = Observable<Action<any>>;
 export type ActionReducer<T> = (state: T, action: Action<any>) => T;
-export type ValueReducer<T, A = any> = (state: T, value: A) => T;
+/** Reducer of an `Action` value, the whole `action` is passed as well e.g. for accessing its `meta`. */
+export type ValueReducer<T, A = any> = (state: T, value: A, action?: Action<A>) => T;
 export type StreamToState<T> = (action$: ActionStream) => Observable<T>;
 
 export type ActionHandlerMap<T> = Record<string, ValueReducer<T>>;
 
-/** Wrapper for creating `Action<T>`s. */
-export interface Actor<T> {
+/** Wrapper for creating `Action<T>`s, optionally from arguments of type `A` and with metadata of type `M` (see `ActorOptions`). */
+export interface Actor<T, M = any, A = T> {
   type: string;
-  new: (value: T) => Action<T>;
+  /** Creates an `Action` from the `args`, the `meta` is merged into the default and prepared metadata. */
+  new: (args: A, meta?: M) => Action<T, M>;
+}
+
+/** Options for `actor`. */
+export interface ActorOptions<T, M = any, A = T> {
+  /** Payload creator returning the value and metadata of the `Action` from the arguments of `new`. */
+  prepare?: (args: A) => {value: T; meta?: M};
+  /** Returns the default metadata of every created `Action` e.g. `() => ({timestamp: Date.now()})`. */
+  meta?: () => M;
 }
 
 /** Similar to Redux store. */
 export interface Store<T> {
+  /** Dispatched actions, emitted after they are reduced i.e. `getState()` returns the resulting state. */
   action$: ActionStream;
   state$: Observable<T>;
   getState(): T;
+  /** Dispatches the `action`, if called while reducing (e.g. by a `state$` subscriber) it is reduced after the current action. */
   dispatch(action: Action<any>): void;
+  /** Dispatches the `actions` in a `transaction`. */
+  dispatchBatch(actions: Action<any>[]): void;
+  /**
+   * Runs the `work` with `state$` emitting only the final state and `action$` the reduced actions afterwards (transactions can be nested).
+   * If the `work` throws, its actions are reverted (not passing the middlewares) without being emitted on `action$` and the error is rethrown.
+   * Errors of reducers (see `StoreOptions.errorPolicy`) abort the transaction the same way, its further actions are dropped.
+   * If called while reducing (e.g. by a `state$` subscriber) the transaction is reduced after the current action like its dispatches.
+   */
+  transaction(work: () => void): void;
+  /** Adds the state created by `createState` as `key` to the assembled state, the current state of the other keys is kept. */
+  addSlice<S>(key: string, createState: StreamToState<S>): void;
+  /** Removes the state added by `addSlice` as `key` from the assembled state. */
+  removeSlice(key: string): void;
+  /** Errors thrown by reducers while reducing dispatched actions (see `StoreOptions.errorPolicy`). */
+  error$: Observable<StoreError>;
+  /** Registers an `Effect` whose emitted actions are dispatched until unsubscribed or `destruct()` is called. */
+  addEffect(effect: Effect<T>, options?: EffectOptions): Subscription;
+  /** Serializes the current state to a JSON string (see `StoreOptions.serializers`). */
+  snapshot(): string;
+  /** Replaces the current state with the deserialized `snapshot`. */
+  restore(snapshot: string): void;
   destruct(): void;
 }
 
-/** Helper: testing content equality. */
+/**
+ * Side effect reacting to dispatched actions and current state by emitting new actions to be dispatched.
+ * @example
+ * const load_products: Effect<UiState> = (action$, state$) => action$.pipe(
+ *   filter((action) => action.type === set_sortAsc.type),
+ *   withLatestFrom(state$),
+ *   switchMap(([action, state]) => api.httpGetProducts$(state.viewProducts.filter, action.value)),
+ *   map((products) => set_products.new(products)),
+ * );
+ */
+export type Effect<T> = (action$: ActionStream, state$: Observable<T>) => Observable<Action<any>>;
+
+/** Error handling of an `Effect`. */
+export interface EffectOptions {
+  /** Called on every error of the effect (default: `console.error`). */
+  onError?: (error: any) => void;
+  /** How many times the effect is resubscribed after an error before it is dropped (default: `10`). */
+  resubscribeLimit?: number;
+}
+
+/** Dispatching function as passed along a `Middleware` chain. */
+export type Dispatch = (action: Action<any>) => void;
+
+/** Action reduced by a `Store` with the states before and after reducing it. */
+export interface ReducedAction<T> {
+  action: Action<any>;
+  stateBefore: T;
+  stateAfter: T;
+}
+
+/** Access to the `Store` as given to a `Middleware`. */
+export interface MiddlewareApi<T> {
+  getState(): T;
+  /** Dispatches through the whole middleware chain again. */
+  dispatch: Dispatch;
+  /** Emits every reduced action (queued ones later than dispatched, in a transaction on commit) like `Store.action$`. */
+  reduced$: Observable<ReducedAction<T>>;
+}
+
+/**
+ * Redux-like middleware intercepting dispatched actions before they reach the reducers.
+ * Call `next(action)` to pass an (optionally transformed) action on, don't call it to swallow the action.
+ * @example
+ * const logger: Middleware = (store) => (next) => (action) => {
+ *   console.log('before', action.type, store.getState());
+ *   next(action);
+ *   console.log('after', action.type, store.getState());
+ * };
+ */
+export type Middleware<T = any> = (store: MiddlewareApi<T>) => (next: Dispatch) => Dispatch;
+
+/** Options for `createStore`. */
+export interface StoreOptions<T> {
+  /** Chain of middlewares, the first one receives the dispatched action first. */
+  middlewares?: Middleware<T>[];
+  /**
+   * State (e.g. rendered on the server) deeply merged into the init of each assembled part (also of slices added later) before it is
+   * emitted, sent as `preload_state` action.
+   */
+  preloadedState?: DeepPartial<T>;
+  /** Converters of non-JSON values used by `snapshot()` and `restore()` (default: `defaultSerializers`). */
+  serializers?: SnapshotSerializer[];
+  /** Handling of errors thrown by reducers, can be decided per error (default: `'rethrow'`). */
+  errorPolicy?: ErrorPolicy | ((error: StoreError) => ErrorPolicy);
+  /**
+   * Development checks of the reducers and states (`true` for all, default: none), adding no overhead when disabled.
+   * Frozen are the states (initial ones as copies), the preloaded state and the dispatched action values.
+   */
+  devChecks?: DevChecks | boolean;
+  /** Scheduler delivering the `state$` notifications e.g. `asapScheduler` or `animationFrameScheduler` (default: synchronous). */
+  scheduler?: SchedulerLike;
+}
+
+/**
+ * Handling of an error thrown by a reducer of a `Store`:
+ * - `'skip'` ignores the action keeping the previous state of the slice
+ * - `'reset'` resets the slice to its init
+ * - `'rethrow'` errors `state$` ending the `Store`
+ *
+ * A failing `apply_patch` action is always skipped as a whole (validated against the whole state before reducing).
+ * In a transaction any error aborts and reverts it instead, `'rethrow'` only rethrows the error from `Store.transaction`.
+ */
+export type ErrorPolicy = 'skip' | 'reset' | 'rethrow';
+
+/** Error thrown by a reducer of a `Store`. */
+export interface StoreError {
+  error: any;
+  action: Action<any>;
+  /** Key path of the slice in the state assembled by `assemble$` or `assemble$_` e.g. `'viewProducts.filter'` (empty for the root). */
+  key: string;
+}
+
+/** Helper: testing content equality via `JSON.stringify` (see `deepEqual` for key order independent equality). */
 export const jsonEqual = <T>(aa: T, bb: T) => JSON.stringify(aa) === JSON.stringify(bb);
 /** Helper: to use in place of `val => !!val`. */
 export const forceBool = (val: boolean) => !!val;
@@ -54,13 +200,19 @@ export const setPropertyIfNotSame = <T extends object, K extends keyof T>(state:
 export const redSetPropertyIfNotSame_ = <T extends object, K extends keyof T>(key: K): ValueReducer<T, T[K]> => (state, value) =>
   setPropertyIfNotSame(state, key, value);
 
-/** Sets `state[key] = value` if not content-equal and returns as new state. */
-export const setPropertyIfNotEqual = <T extends object, K extends keyof T>(state: T, key: K, value: T[K]): T =>
-  !state || state[key] === value || jsonEqual(state[key], value) ? state : Object.assign({}, state, {[key]: value});
+/** Sets `state[key] = value` if not content-equal (default: `deepEqual`) and returns as new state. */
+export const setPropertyIfNotEqual = <T extends object, K extends keyof T>(
+  state: T,
+  key: K,
+  value: T[K],
+  equal: Equality<T[K]> = deepEqual,
+): T => (!state || state[key] === value || equal(state[key], value) ? state : Object.assign({}, state, {[key]: value}));
 
 /** Returns a reducer based on `setPropertyIfNotEqual`. */
-export const redSetPropertyIfNotEqual_ = <T extends object, K extends keyof T>(key: K): ValueReducer<T, T[K]> => (state, value) =>
-  setPropertyIfNotEqual(state, key, value);
+export const redSetPropertyIfNotEqual_ = <T extends object, K extends keyof T>(key: K, equal?: Equality<T[K]>): ValueReducer<T, T[K]> => (
+  state,
+  value,
+) => setPropertyIfNotEqual(state, key, value, equal);
 
 /** Reducer for setting `value` as new state. */
 export const redSet = <T extends object>(state: T, value: T) => value;
@@ -92,15 +244,53 @@ export const redMergeProperty_ = <T extends object, K extends keyof T>(key: K):
  * ...
  * const red_test = reducers_<Test>({
  *   'IncrementValueIntoA': (state, val: number) => ({ ...state, a: val + 1 }),
+ *   'SetValueIntoAWithSource': (state, val: number, action: Action<number, {source: string}>) => ({ ...state, a: val, b: action.meta.source }),
  *   [act_set_b.type]: redSet,
  *   [act_set_c.type]: redSetPropertyIfNotSame_('c'),
  * });
  */
 export const reducers_ = <T>(actionTypeToHandler: ActionHandlerMap<T>): ActionReducer<T> => (state, action) =>
-  actionTypeToHandler && action.type in actionTypeToHandler ? actionTypeToHandler[action.type](state, action.value) : state;
+  actionTypeToHandler && action.type in actionTypeToHandler ? actionTypeToHandler[action.type](state, action.value, action) : state;
+
+/** Handling of missing or duplicate `Actor` types: ignore, `console.warn` or throw an `Error`. */
+export type ActorTypeCheck = 'off' | 'warn' | 'throw';
+
+let actorTypeCheck: ActorTypeCheck = 'warn';
+const actorTypes = new Set<string>();
+
+const registerActorType = (type: string) => {
+  const problem = type === '???' ? 'missing' : actorTypes.has(type) ? 'duplicate' : null;
+  actorTypes.add(type);
+  if (problem && actorTypeCheck !== 'off') {
+    const message = `Actor type ${problem}: ${type}`;
+    if (actorTypeCheck === 'throw') {
+      throw new Error(message);
+    }
+    console.warn(message);
+  }
+};
+
+/** Sets the handling of missing or duplicate `Actor` types (default: `'warn'`). */
+export const setActorTypeCheck = (check: ActorTypeCheck) => (actorTypeCheck = check);
+
+/** Returns all registered `Actor` types. */
+export const getActorTypes = () => Array.from(actorTypes);
+
+/** Clears the registered `Actor` types e.g. between tests. */
+export const clearActorTypes = () => actorTypes.clear();
+
+const mergeMeta = (...metas: any[]) =>
+  metas
+    .filter((meta) => meta !== undefined)
+    .reduce(
+      (acc, meta) =>
+        acc && meta && typeof acc === 'object' && typeof meta === 'object' && !Array.isArray(meta) ? {...acc, ...meta} : meta,
+      undefined,
+    );
 
 /**
- * Creates an `Actor` with type concatenated from the `type: string[]` parameter.
+ * Creates an `Actor` with type concatenated from the `type: string[]` parameter, an `ActorOptions` object can be passed last.
+ * The type is registered and checked to be unique (see `setActorTypeCheck`).
  * @example
  * const STATE = 'ui';
  * const STATE_GLOBAL = 'global';
@@ -109,21 +299,359 @@ export const reducers_ = <T>(actionTypeToHandler: ActionHandlerMap<T>): ActionRe
  * const act_set_locale = rxState.act_(set_locale);
  * ...
  * act_set_locale('en_US');
+ * ...
+ * const add_todo = actor<Todo, TodoMeta, string>('ADD', STATE, 'todo', {
+ *   prepare: (text) => ({value: {text, done: false}, meta: {id: uuid()}}),
+ *   meta: () => ({timestamp: Date.now()}),
+ * });
+ */
+export const actor = <T, M = any, A = T>(...type: (string | ActorOptions<T, M, A>)[]): Actor<T, M, A> => {
+  const options = <ActorOptions<T, M, A>>(type || []).find((part) => typeof part !== 'string') || {};
+  const parts = <string[]>(type || []).filter((part) => typeof part === 'string');
+  const _type = parts.length ? parts.join('_') : '???';
+  registerActorType(_type);
+  return {
+    type: _type,
+    new: (args: A, meta?: M) => {
+      const prepared = options.prepare ? options.prepare(args) : {value: <T>(<any>args), meta: undefined};
+      const metaMerged: M = mergeMeta(options.meta ? options.meta() : undefined, prepared.meta, meta);
+      return metaMerged === undefined ? {type: _type, value: prepared.value} : {type: _type, value: prepared.value, meta: metaMerged};
+    },
+  };
+};
+
+/**
+ * Returns an `actor` creator prefixing all types with the `prefix` parts.
+ * @example
+ * const actorProducts = actorFactory('UI', 'PRODUCTS');
+ * const set_sortAsc = actorProducts<boolean>('SET', 'sortAsc'); // type: 'UI_PRODUCTS_SET_sortAsc'
+ */
+export const actorFactory = (...prefix: string[]) => <T, M = any, A = T>(...type: (string | ActorOptions<T, M, A>)[]) =>
+  actor<T, M, A>(...prefix, ...type);
+
+/**
+ * Built-in `Actor` replacing the state of every `toState$` with the `value` (scoped down per key by `assemble$` and `assemble$_`).
+ * An `undefined` value (or key) keeps the current state. Used for time travel, rehydration and similar.
+ * @example
+ * store.dispatch(replace_state.new(recordedState));
+ */
+export const replace_state = actor<any>('@@DD_RX_STATE', 'REPLACE');
+
+/**
+ * Built-in `Actor` applying the JSON Patch operations of the `value` in every `toState$` (scoped down per key by `assemble$` and `assemble$_`).
+ * Operations on a `base` key assembled from `parts` are applied to the part only, `move`/`copy` only work within a part.
+ * A `Store` applies the whole patch atomically to its state instead (reducing a `replace_state` with the result but emitting
+ * the `apply_patch` on `action$`), a failing patch is reported on `Store.error$` and not applied at all.
+ * @example
+ * store.dispatch(apply_patch.new([{op: 'replace', path: '/viewProducts/sortAsc', value: false}]));
+ */
+export const apply_patch = actor<PatchOperation[]>('@@DD_RX_STATE', 'APPLY_PATCH');
+
+/**
+ * Built-in `Actor` deeply merging the `value` into the state and the init of every `toState$` (scoped down per key like `replace_state`).
+ * Sent by a `Store` for its `preloadedState` before any other action, states not based on `toState$` may handle it likewise.
+ */
+export const preload_state = actor<any>('@@DD_RX_STATE', 'PRELOAD');
+
+/** Scopes the JSON `pointer` down to the `key` (`null` if not below the `key`). */
+const scopePointer = (pointer: string, key: string) => {
+  const prefix = `/${toPointerToken(key)}`;
+  return pointer === prefix ? '' : (pointer || '').startsWith(`${prefix}/`) ? pointer.slice(prefix.length) : null;
+};
+
+/** Scopes the `patch` down to the operations below the `key` (`keep` the other ones instead if set). */
+const scopePatch = (patch: PatchOperation[], key: string, keep?: boolean) =>
+  (patch || []).reduce<PatchOperation[]>((acc, operation) => {
+    const path = scopePointer(operation.path, key);
+    const from = 'from' in operation ? scopePointer(operation.from, key) : null;
+    if (keep) {
+      return path === null && from === null ? [...acc, operation] : acc;
+    }
+    if (!operation.path && (operation.op === 'add' || operation.op === 'replace')) {
+      const value = operation.value && typeof operation.value === 'object' ? operation.value[key] : undefined;
+      return value === undefined ? acc : [...acc, {op: 'replace', path: '', value}];
+    }
+    return path === null || ('from' in operation && from === null)
+      ? acc
+      : [...acc, {...operation, path, ...('from' in operation ? {from} : {})}];
+  }, []);
+
+const reducePatch = <T>(state: T, action: Action<PatchOperation[]>) => applyPatch(state, action.value);
+
+/** Keys of the slices currently reducing an action. */
+const sliceKeys: string[] = [];
+
+/** Decides the `ErrorPolicy` of reducer errors of the currently reducing `Store` (none: rethrow). */
+let reducerErrorHandler: (error: StoreError) => ErrorPolicy = null;
+
+const reduceSafe = <T>(reducer: ActionReducer<T>, state: T, action: Action<any>, init: T) => {
+  try {
+    return reducer(state, action);
+  } catch (error) {
+    const policy = reducerErrorHandler ? reducerErrorHandler({error, action, key: sliceKeys.join('.')}) : 'rethrow';
+    if (policy === 'rethrow') {
+      throw error;
+    }
+    return policy === 'reset' ? init : state;
+  }
+};
+
+/**
+ * Scopes the `replace_state`, `preload_state` and `apply_patch` actions in `action$` down to the `key` of the value
+ * and tracks the key while reducing.
+ */
+const scopeActions = (action$: ActionStream, key: string): ActionStream =>
+  new Observable<Action<any>>((subscriber) =>
+    action$.subscribe(
+      (action) => {
+        sliceKeys.push(key);
+        try {
+          subscriber.next(
+            action.type === replace_state.type || action.type === preload_state.type
+              ? <Action<any>>{...action, value: action.value && typeof action.value === 'object' ? action.value[key] : undefined}
+              : action.type === apply_patch.type
+              ? <Action<any>>{...action, value: scopePatch(action.value, key)}
+              : action,
+          );
+        } finally {
+          sliceKeys.pop();
+        }
+      },
+      (error) => subscriber.error(error),
+      () => subscriber.complete(),
+    ),
+  );
+
+/** Removes the operations below the `keys` from the `apply_patch` actions in `action$`. */
+const unscopeActions = (action$: ActionStream, keys: string[]): ActionStream =>
+  keys.length
+    ? action$.pipe(
+        map((action) =>
+          action.type !== apply_patch.type
+            ? action
+            : <Action<any>>{...action, value: keys.reduce((acc, key) => scopePatch(acc, key, true), <PatchOperation[]>action.value)},
+        ),
+      )
+    : action$;
+
+/** Binds the action streams of the states subscribed by an assembler as its `base` or `parts` (`null` while not assembling). */
+let actionBinding: (action$: ActionStream) => ActionStream = null;
+
+/** Subscribes the `state$` with the action streams bound by the `binding`. */
+const subscribeBound = <T>(state$: Observable<T>, binding: (action$: ActionStream) => ActionStream, observer: PartialObserver<T>) => {
+  const outerBinding = actionBinding;
+  actionBinding = binding;
+  try {
+    return state$.subscribe(observer);
+  } finally {
+    actionBinding = outerBinding;
+  }
+};
+
+/**
+ * Returns a state creator subscribing the state created by `createState` with the action stream as scoped by an enclosing `assemble$`
+ * (which scopes the action streams of the states it subscribes) e.g. for state creators deriving the action stream for other ones.
+ * @example
+ * const unwrapped$_ = <T>(state$_: StreamToState<Wrapped<T>>) => bindState$_((action$) => state$_(action$.pipe(map(wrap))).pipe(map(unwrap)));
  */
-export const actor = <T>(...type: string[]) => {
-  const _type = (type || ['???']).join('_');
-  return <Actor<T>>{type: _type, new: (value: T) => <Action<T>>{type: _type, value}};
+export const bindState$_ = <T>(createState: StreamToState<T>): StreamToState<T> => (action$) =>
+  new Observable<T>((subscriber) => {
+    const bound$ = actionBinding ? actionBinding(action$) : action$;
+    return subscribeBound(
+      defer(() => createState(bound$)),
+      null,
+      subscriber,
+    );
+  });
+
+/** Reducer violation found by the development checks. */
+export interface DevCheckViolation {
+  check: 'mutation' | 'determinism';
+  actionType: string;
+  message: string;
+}
+
+/** Development checks of the reducers used in `toState$` and of the states of a `Store` (see `StoreOptions.devChecks`). */
+export interface DevChecks {
+  /** Deep-freezes states and action values (default: `true`). */
+  freeze?: boolean;
+  /** Detects in-place mutation of the state by a reducer (default: `true`). */
+  mutation?: boolean;
+  /** Reduces every action twice and compares the results (default: `true`). */
+  determinism?: boolean;
+  /** Called on violations (default: throws on mutation and `console.warn`s on non-determinism). */
+  report?: (violation: DevCheckViolation) => void;
+}
+
+/** Internal action of a `Store` passing its development checks (`value`) to the states it subscribes, sent before any other action. */
+const DEV_CHECKS = '@@DD_RX_STATE_DEV_CHECKS';
+
+/** Internal action of a `Store` saving, restoring or releasing the states of the transaction `id` (see `Store.transaction`). */
+const CHECKPOINT = '@@DD_RX_STATE_CHECKPOINT';
+
+interface Checkpoint {
+  id: number;
+  op: 'save' | 'restore' | 'release';
+}
+
+/** Running transaction of a `Store` with its checkpoint `id` and the count of actions `held` before it. */
+interface StoreTransaction {
+  id: number;
+  held: number;
+  /** Queued while reducing i.e. its errors cannot be thrown to the caller. */
+  deferred: boolean;
+  /** First error failing the transaction with its `ErrorPolicy`. */
+  failure?: {error: any; policy: ErrorPolicy};
+}
+
+const reportDevCheck = (violation: DevCheckViolation) => {
+  if (violation.check === 'mutation') {
+    throw new Error(violation.message);
+  }
+  console.warn(violation.message);
+};
+
+const toDevChecks = (checks: DevChecks | boolean): DevChecks =>
+  !checks ? null : {freeze: true, mutation: true, determinism: true, report: reportDevCheck, ...(checks === true ? {} : checks)};
+
+/** Helper: freezes the `value` and all nested objects. */
+export const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+  return value;
+};
+
+/** Copies plain objects and arrays deeply e.g. for freezing a copy of a shared value. */
+const copyDeep = <T>(value: T): T =>
+  Array.isArray(value)
+    ? <any>value.map(copyDeep)
+    : value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+    ? Object.entries(value).reduce((acc, [key, item]) => Object.assign(acc, {[key]: copyDeep(item)}), <T>{})
+    : value;
+
+/** Returns whether the `error` was thrown by writing to a frozen object (messages of V8, SpiderMonkey and JavaScriptCore). */
+const isFrozenWriteError = (error: any) =>
+  error instanceof TypeError && /read[- ]only|not extensible|non-configurable|Cannot delete|Attempted to assign/i.test(error.message);
+
+const fingerprint = (value: any) => {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return null;
+  }
+};
+
+/** Wraps the `reducer` with the development `checks`. */
+const checkReducer = <T>(reducer: ActionReducer<T>, checks: DevChecks): ActionReducer<T> => (state, action) => {
+  const report = (check: DevCheckViolation['check'], message: string) =>
+    checks.report({check, actionType: action.type, message: `Reducer ${message} on action: ${action.type}`});
+  if (checks.freeze) {
+    deepFreeze(state);
+    deepFreeze(action.value);
+  }
+  const before = checks.mutation ? fingerprint(state) : null;
+  let ret: T;
+  try {
+    ret = reducer(state, action);
+  } catch (error) {
+    if (checks.mutation && checks.freeze && isFrozenWriteError(error) && Object.isFrozen(state)) {
+      report('mutation', `mutated state (${error.message})`);
+      return state;
+    }
+    throw error;
+  }
+  if (checks.mutation && fingerprint(state) !== before) {
+    report('mutation', 'mutated state');
+  }
+  if (checks.determinism && fingerprint(reducer(state, action)) !== fingerprint(ret)) {
+    report('determinism', 'returned non-deterministic state');
+  }
+  return checks.freeze ? deepFreeze(ret) : ret;
 };
 
 /**
- * Creates a state Observable emitting new state from scanning the `action$` stream.
+ * Creates a state Observable emitting new state from scanning the `action$` stream, optionally only if not `equal` (default: identity).
+ * The reducers are wrapped with the development `devChecks` if passed, otherwise with the ones of the `Store` subscribing the state.
  * @example
  * interface Test { a?: number, b?: string, c?: boolean };
  * const action$ = new Subject<Action<any>>();
  * const state$ = toState$(action$, <Test>{ a: 0, b: '', c: false }, { 'ActMerge': redMerge });
+ * ...
+ * const stateChecked$ = toState$(action$, <Test>{ a: 0, b: '', c: false }, { 'ActMerge': redMerge }, null, true);
  */
-export const toState$ = <T>(action$: ActionStream, init: T, reduce: ActionReducer<T> | ActionHandlerMap<T>) =>
-  merge(of(init), action$.pipe(scan(typeof reduce === 'function' ? reduce : reducers_(reduce), init))).pipe(distinctUntilChanged());
+export const toState$ = <T>(
+  action$: ActionStream,
+  init: T,
+  reduce: ActionReducer<T> | ActionHandlerMap<T>,
+  equal?: Equality<T>,
+  devChecks?: DevChecks | boolean,
+) => {
+  const reducerUnchecked = typeof reduce === 'function' ? reduce : reducers_(reduce);
+  const ownChecks = devChecks !== undefined && devChecks !== null;
+  return bindState$_(
+    (bound$) =>
+      new Observable<T>((subscriber) => {
+        let initial = init;
+        let state = init;
+        let reducer = reducerUnchecked;
+        let started = false;
+        const saved = new Map<number, T>();
+        const check = (checks: DevChecks) => {
+          reducer = checks ? checkReducer(reducerUnchecked, checks) : reducerUnchecked;
+          if (checks && checks.freeze) {
+            const copied = deepFreeze(copyDeep(initial));
+            state = state === initial ? copied : deepFreeze(copyDeep(state));
+            initial = copied;
+          }
+        };
+        const reduceAction = (action: Action<any>) => {
+          if (action.type === DEV_CHECKS) {
+            if (!ownChecks) {
+              check(action.value);
+            }
+          } else if (action.type === CHECKPOINT) {
+            const {id, op} = <Checkpoint>action.value;
+            state = op === 'restore' && saved.has(id) ? saved.get(id) : state;
+            if (op === 'save') {
+              saved.set(id, state);
+            } else {
+              saved.delete(id);
+            }
+          } else if (action.type === replace_state.type) {
+            state = action.value === undefined ? state : action.value;
+          } else if (action.type === preload_state.type) {
+            initial = deepMerge(initial, action.value);
+            state = deepMerge(state, action.value);
+          } else {
+            state = reduceSafe(action.type === apply_patch.type ? reducePatch : reducer, state, action, initial);
+          }
+        };
+        check(toDevChecks(devChecks));
+        const subscription = bound$.subscribe(
+          (action) => {
+            try {
+              reduceAction(action);
+            } catch (error) {
+              subscriber.error(error);
+              return;
+            }
+            if (started) {
+              subscriber.next(state);
+            }
+          },
+          (error) => subscriber.error(error),
+          () => subscriber.complete(),
+        );
+        started = true;
+        if (!subscriber.closed) {
+          subscriber.next(state);
+        }
+        return subscription;
+      }),
+  )(action$).pipe(distinctUntilChanged(equal));
+};
 
 /**
  * Returns a creator for a state Observable emitting new state from scanning the `action$` stream.
@@ -133,12 +661,193 @@ export const toState$ = <T>(action$: ActionStream, init: T, reduce: ActionReduce
  * ...
  * const state$ = state$_(action$);
  */
-export const toState$_ = <T>(init: T, reduce: ActionReducer<T> | ActionHandlerMap<T>) => (action$: ActionStream) =>
-  toState$(action$, init, reduce);
+export const toState$_ = <T>(
+  init: T,
+  reduce: ActionReducer<T> | ActionHandlerMap<T>,
+  equal?: Equality<T>,
+  devChecks?: DevChecks | boolean,
+) => (action$: ActionStream) => toState$(action$, init, reduce, equal, devChecks);
+
+/** Part of an assembled state computed from the assembled sibling keys, created by `derived`. */
+export interface DerivedPart<T, R> {
+  derive: (siblings: T) => R;
+}
+
+const derivedParts = new WeakSet<DerivedPart<any, any>>();
+
+const isDerived = (part: any): part is DerivedPart<any, any> => !!part && typeof part === 'object' && derivedParts.has(part);
+
+/**
+ * Creates a part of `assemble$`, `assemble$_`, `initReduceAssemble$` or `initReduceAssemble$_` computed by `derive` from the assembled
+ * siblings (incl. other derived parts). It is recomputed only if the values of the siblings it read changed, cycles error the state.
+ * @example
+ * const state$_ = initReduceAssemble$_(<ViewProducts>{products: [], filter: '', visible: null}, {...}, {
+ *   visible: derived((siblings: ViewProducts) => siblings.products.filter((product) => product.includes(siblings.filter))),
+ * });
+ */
+export const derived = <T, R>(derive: (siblings: T) => R): DerivedPart<T, R> => {
+  const part = {derive};
+  derivedParts.add(part);
+  return part;
+};
+
+/**
+ * Returns a function adding the values of the `derived` parts to an assembled state, memoized by the values of the siblings they read.
+ * Throws on cycles between derived parts.
+ */
+const deriveParts = <T extends object>(parts: Record<string, DerivedPart<T, any>>) => {
+  const memos = new Map<string, {reads: [string, any][]; value: any}>();
+  return (assembled: T): T => {
+    const results = new Map<string, any>();
+    const deriving: string[] = [];
+    const valueOf = (key: string) => {
+      if (!(key in parts)) {
+        return assembled[key];
+      }
+      if (results.has(key)) {
+        return results.get(key);
+      }
+      if (deriving.includes(key)) {
+        throw new Error(`assemble$: cycle between derived parts: ${[...deriving.slice(deriving.indexOf(key)), key].join(' -> ')}`);
+      }
+      deriving.push(key);
+      try {
+        const memo = memos.get(key);
+        if (!memo || memo.reads.some(([read, value]) => valueOf(read) !== value)) {
+          const reads: [string, any][] = [];
+          const siblings = [...Object.keys(assembled), ...Object.keys(parts)].reduce(
+            (acc, sibling) =>
+              Object.defineProperty(acc, sibling, {
+                configurable: true,
+                enumerable: true,
+                get: () => {
+                  const value = valueOf(sibling);
+                  reads.push([sibling, value]);
+                  return value;
+                },
+              }),
+            <T>{},
+          );
+          memos.set(key, {reads, value: parts[key].derive(siblings)});
+        }
+      } finally {
+        deriving.pop();
+      }
+      results.set(key, memos.get(key).value);
+      return results.get(key);
+    };
+    return Object.keys(parts).reduce((acc, key) => Object.assign(acc, {[key]: valueOf(key)}), assembled);
+  };
+};
+
+/**
+ * Assembles the `base` and `parts` values or states into one state, the `parts` are merged over the `base` keys and untouched keys keep
+ * their references. The states are subscribed with their action streams (see `bindState$_`) scoped and batched so that every action
+ * emits at most one assembled state.
+ */
+const assembleBatched$ = <T extends object>(base: T | Observable<T>, parts?: Record<string, any>) =>
+  new Observable<T>((subscriber) => {
+    const outerBinding = actionBinding;
+    const keys = Object.keys(parts || {});
+    const sources: [string, any][] = [[null, base], ...Object.entries(parts || {}).filter(([, part]) => !isDerived(part))];
+    const derive = deriveParts<T>(
+      Object.entries(parts || {})
+        .filter(([, part]) => isDerived(part))
+        .reduce((acc, [key, part]) => Object.assign(acc, {[key]: part}), {}),
+    );
+    const values = sources.map(([, value]) => (isObservable(value) ? undefined : value));
+    const received = sources.map(([, value]) => !isObservable(value));
+    const batches = new Map<ActionStream, Subject<Action<any>>>();
+    const subscription = new Subscription();
+    let completed = received.filter((done) => done).length;
+    let connected = false;
+    let batching = true;
+    let dirty = true;
+
+    const emit = () => {
+      dirty = false;
+      if (received.every((done) => done)) {
+        let assembled: T;
+        try {
+          assembled = derive(
+            sources.reduce((acc, [key], index) => Object.assign(acc, key === null ? values[index] : {[key]: values[index]}), <T>{}),
+          );
+        } catch (error) {
+          subscriber.error(error);
+          return;
+        }
+        subscriber.next(assembled);
+      }
+    };
+    const flush = (work: () => void) => {
+      batching = true;
+      try {
+        work();
+      } finally {
+        batching = false;
+      }
+      if (dirty) {
+        emit();
+      }
+    };
+    const connect = (batch$: Subject<Action<any>>, action$: ActionStream) =>
+      subscription.add(
+        (outerBinding ? outerBinding(action$) : action$).subscribe(
+          (action) => flush(() => batch$.next(action)),
+          (error) => batch$.error(error),
+          () => batch$.complete(),
+        ),
+      );
+    const batchOf = (action$: ActionStream) => {
+      if (!batches.has(action$)) {
+        batches.set(action$, new Subject<Action<any>>());
+        if (connected) {
+          connect(batches.get(action$), action$);
+        }
+      }
+      return batches.get(action$);
+    };
+
+    flush(() =>
+      sources.forEach(([key, value], index) => {
+        if (!isObservable(value)) {
+          return;
+        }
+        const binding =
+          key === null
+            ? (action$: ActionStream) => unscopeActions(batchOf(action$), keys)
+            : (action$: ActionStream) => scopeActions(batchOf(action$), key);
+        subscription.add(
+          subscribeBound(value, binding, {
+            next: (state) => {
+              values[index] = state;
+              received[index] = true;
+              dirty = true;
+              if (!batching) {
+                emit();
+              }
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => ++completed === sources.length && subscriber.complete(),
+          }),
+        );
+      }),
+    );
+    if (completed === sources.length) {
+      subscriber.complete();
+      return subscription;
+    }
+    connected = true;
+    batches.forEach(connect);
+    return subscription;
+  });
 
 /**
- * Assembles a state Observable emitting new state from combining a `base` object or Observable and `parts` values or Observables which relate to the `base` keys.
- * *WARNING: a nested state from `parts` should not be reduced in the `base` if the `base` is an Observable.*
+ * Assembles a state Observable emitting new state from combining a `base` object or Observable and `parts` values, Observables or `derived`
+ * parts which relate to the `base` keys (the `parts` override the `base` values of their keys).
+ * An action emits at most one assembled state (also for nested assembled `parts`), the untouched keys keep their references.
+ * The actions reduced by the `base` and `parts` states (see `bindState$_`) are batched and `replace_state`/`apply_patch` scoped per key.
+ * Optionally emits only if not `equal` to the previous state.
  * @example
  * interface TestNested { a?: number, b?: string, c?: boolean };
  * interface Test { a?: TestNested, b?: string };
@@ -147,21 +856,18 @@ export const toState$_ = <T>(init: T, reduce: ActionReducer<T> | ActionHandlerMa
  * const state_parent$ = toState$(action$, <Test>{ a: null, b: 'parent' }, { 'ActSetB': redSetPropertyIfNotSame_('b') });
  * const state$ = assemble$(state_parent$, { 'a': state_nested$ });
  */
-export const assemble$ = <T extends object>(base: T | Observable<T>, parts?: Partial<{[K in keyof T]: Observable<T[K]> | T[K]}>) => {
-  const toCombine = [isObservable(base) ? base : of(typeof base === 'object' ? base : <T>{})];
-  if (parts && Object.keys(parts).length) {
-    const part$s = Object.entries(parts)
-      .filter(([key]) => typeof key === 'string')
-      .map(([key, value]) => (isObservable(value) ? value : of(value)).pipe(map((_) => <T>{[key]: _})));
-    toCombine.push(merge(...part$s).pipe(scan((acc, val) => Object.assign(<T>{}, acc || <T>{}, val || <T>{}), <T>{})));
-  }
-  return combineLatest(toCombine).pipe(map(([into, from]) => Object.assign(<T>{}, into, from)));
+export const assemble$ = <T extends object>(
+  base: T | Observable<T>,
+  parts?: Partial<{[K in keyof T]: Observable<T[K]> | T[K] | DerivedPart<T, T[K]>}>,
+  equal?: Equality<T>,
+) => {
+  const assembled$ = assembleBatched$(isObservable(base) || typeof base === 'object' ? base : <T>{}, parts);
+  return equal ? assembled$.pipe(distinctUntilChanged(equal)) : assembled$;
 };
 
 /**
- * Returns a creator for assembling a state Observable emitting new state from combining a `base` object or Observable and `parts` values
- * or Observables which relate to the `base` keys.
- * *WARNING: a nested state from `parts` should not be reduced in the `base` if the `base` is an Observable.*
+ * Returns a creator for assembling a state Observable emitting new state from combining a `base` object or Observable and `parts` values,
+ * Observables or `derived` parts which relate to the `base` keys (the `parts` override the `base` values of their keys), see `assemble$`.
  * @example
  * interface TestNested { a?: number, b?: string, c?: boolean };
  * interface Test { a?: TestNested, b?: string };
@@ -171,19 +877,19 @@ export const assemble$ = <T extends object>(base: T | Observable<T>, parts?: Par
  * ...
  * const state$ = state$_(action$);
  */
-export const assemble$_ = <T extends object>(base: T | StreamToState<T>, parts?: {[K in keyof T]: T[K] | StreamToState<T[K]>}) => (
-  action$: ActionStream,
-) => {
-  const assembleBase = typeof base === 'function' ? (base as StreamToState<T>)(action$) : base;
-  const assembleParts =
-    !parts || !Object.keys(parts).length
-      ? null
-      : Object.entries(parts || {}).reduce<Partial<{[K in keyof T]: Observable<T[K]> | T[K]}>>(
-          (acc, [key, value]) => Object.assign(acc, {[key]: typeof value === 'function' ? (value as StreamToState<T>)(action$) : value}),
-          {},
-        );
-  return assemble$(assembleBase, assembleParts);
-};
+export const assemble$_ = <T extends object>(
+  base: T | StreamToState<T>,
+  parts?: {[K in keyof T]: T[K] | StreamToState<T[K]> | DerivedPart<T, T[K]>},
+  equal?: Equality<T>,
+) => (action$: ActionStream) =>
+  assemble$(
+    typeof base === 'function' ? (base as StreamToState<T>)(action$) : base,
+    Object.entries(parts || {}).reduce(
+      (acc, [key, value]) => Object.assign(acc, {[key]: typeof value === 'function' ? (value as StreamToState<any>)(action$) : value}),
+      {},
+    ),
+    equal,
+  );
 
 /**
  * Creates a state Observable (from init object, reducers and nested parts) emitting new state from scanning the `action$` stream.
@@ -198,7 +904,7 @@ export const initReduceAssemble$ = <T extends object>(
   action$: ActionStream,
   init: T,
   reduce: ActionReducer<T> | ActionHandlerMap<T>,
-  parts?: {[K in keyof T]: T[K] | Observable<T[K]>},
+  parts?: {[K in keyof T]: T[K] | Observable<T[K]> | DerivedPart<T, T[K]>},
 ) => assemble$(toState$(action$, init, reduce), parts);
 
 /**
@@ -214,30 +920,350 @@ export const initReduceAssemble$ = <T extends object>(
 export const initReduceAssemble$_ = <T extends object>(
   init: T,
   reduce: ActionReducer<T> | ActionHandlerMap<T>,
-  parts?: {[K in keyof T]: T[K] | StreamToState<T[K]>},
+  parts?: {[K in keyof T]: T[K] | StreamToState<T[K]> | DerivedPart<T, T[K]>},
 ) => assemble$_(toState$_(init, reduce), parts);
 
+/** State subscribed by a `Store`, either its root state or a slice added by `addSlice`. */
+interface StoreSlice {
+  subscription: Subscription;
+  state?: any;
+  received: boolean;
+}
+
 class StoreImpl<T> implements Store<T> {
-  constructor(private readonly createState: StreamToState<T>) {
-    this.state$.subscribe((state) => (this.state = state));
+  constructor(private readonly createState: StreamToState<T>, private readonly options?: StoreOptions<T>) {
+    this.connect();
   }
 
+  private readonly devChecks = toDevChecks(this.options && this.options.devChecks);
+  private readonly freeze = !!this.devChecks && this.devChecks.freeze;
+  private readonly serializers = (this.options && this.options.serializers) || defaultSerializers;
+  private readonly done$ = new Subject();
+  private readonly transactionEnd$ = new Subject<boolean>();
+  /** Running transactions, innermost last. */
+  private readonly transactions: StoreTransaction[] = [];
+  private checkpoints = 0;
+  private readonly slices: Record<string, StoreSlice> = {};
+  /** State created by `createState`, the slices are assembled over it. */
+  private readonly root: StoreSlice = {subscription: Subscription.EMPTY, received: false};
+  /** Set while reducing an action, the assembled state is emitted once afterwards if `changed`. */
+  private collecting = false;
+  private changed = false;
   private state: T = null;
+  private readonly stateCurrent$ = new ReplaySubject<T>(1);
+  /** Actions to be reduced, only the state pipeline and the slices subscribe to it. */
   private readonly actionIn$ = new Subject<Action<any>>();
+  private readonly checks$ = this.devChecks ? of<Action<any>>({type: DEV_CHECKS, value: this.devChecks}) : EMPTY;
+  private readonly preload$ =
+    this.options && this.options.preloadedState !== undefined && this.options.preloadedState !== null
+      ? of(preload_state.new(this.options.preloadedState))
+      : EMPTY;
+  /** Reduced actions, emitted after the state pipeline so subscribers see the resulting state. */
+  private readonly reducedOut$ = new Subject<ReducedAction<T>>();
+  /** Reduced actions of the running transactions, emitted on `action$` on commit. */
+  private readonly held: ReducedAction<T>[] = [];
+  private readonly queue: (() => void)[] = [];
+  private reducing = false;
+  private readonly dispatchChain = ((this.options && this.options.middlewares) || [])
+    .map((middleware) =>
+      middleware({getState: () => this.getState(), dispatch: (action) => this.dispatch(action), reduced$: this.reducedOut$.asObservable()}),
+    )
+    .reduceRight<Dispatch>(
+      (next, middleware) => middleware(next),
+      (action) => this.reduce(action),
+    );
+
+  private readonly errorPolicy = (this.options && this.options.errorPolicy) || 'rethrow';
+  private readonly errorIn$ = new Subject<StoreError>();
+
+  public readonly error$ = this.errorIn$.asObservable();
+
+  public readonly action$ = this.reducedOut$.pipe(map(({action}) => <Action<any>>{...action}));
+
+  private readonly stateSync$ = defer(() => {
+    let pending = false;
+    return merge(
+      this.stateCurrent$.pipe(
+        filter(() => {
+          pending = pending || this.transactions.length > 0;
+          return !this.transactions.length;
+        }),
+      ),
+      this.transactionEnd$.pipe(
+        filter((commit) => {
+          const flush = commit && pending;
+          pending = false;
+          return flush;
+        }),
+        map(() => this.state),
+      ),
+    );
+  });
 
-  public readonly action$ = this.actionIn$.pipe(map((action) => <Action<any>>{...action}));
-  public readonly state$ = this.createState(this.actionIn$);
+  public readonly state$ =
+    this.options && this.options.scheduler ? this.stateSync$.pipe(observeOn(this.options.scheduler)) : this.stateSync$;
+
+  /** Subscribes the state created by `createState`, the preloaded state is merged into its init before the first emission. */
+  private connect() {
+    const action$ = concat(this.checks$, this.preload$, this.actionIn$).pipe(map((action) => this.unscopeSlices(action)));
+    this.collect(() => (this.root.subscription = this.subscribeSlice(this.root, this.createState(action$))));
+  }
+
+  /** Subscribes the `state$` of the `slice` emitting the assembled state on changes. */
+  private subscribeSlice(slice: StoreSlice, state$: Observable<any>) {
+    return state$.subscribe(
+      (state) => {
+        slice.state = state;
+        slice.received = true;
+        this.publish();
+      },
+      (error) => this.stateCurrent$.error(error),
+    );
+  }
+
+  /** Removes the keys of the slices from the `replace_state` and `preload_state` actions of the root state. */
+  private unscopeSlices(action: Action<any>) {
+    const keys = Object.keys(this.slices);
+    if ((action.type !== replace_state.type && action.type !== preload_state.type) || !action.value || typeof action.value !== 'object') {
+      return action;
+    }
+    return !keys.length
+      ? action
+      : <Action<any>>{
+          ...action,
+          value: Object.entries(action.value)
+            .filter(([key]) => !keys.includes(key))
+            .reduce((acc, [key, value]) => Object.assign(acc, {[key]: value}), {}),
+        };
+  }
+
+  /** Runs the `work` (e.g. reducing an action) emitting the assembled state once afterwards if changed. */
+  private collect(work: () => void) {
+    const outerCollecting = this.collecting;
+    this.collecting = true;
+    try {
+      work();
+    } finally {
+      this.collecting = outerCollecting;
+    }
+    if (!this.collecting && this.changed) {
+      this.publish();
+    }
+  }
+
+  /** Emits the root state with the slices assembled over it once all of them have emitted. */
+  private publish() {
+    this.changed = this.collecting;
+    const slices = Object.entries(this.slices);
+    if (this.collecting || !this.root.received || slices.some(([, slice]) => !slice.received)) {
+      return;
+    }
+    this.next(
+      slices.length
+        ? slices.reduce((acc, [key, slice]) => Object.assign(acc, {[key]: slice.state}), <T>Object.assign({}, this.root.state))
+        : this.root.state,
+    );
+  }
+
+  /** Passes the `action` to the reducers and emits it on `action$` afterwards (on commit in a transaction). */
+  private reduce(action: Action<any>) {
+    this.run(() => {
+      const transaction = this.transactions[this.transactions.length - 1];
+      if (transaction && transaction.failure) {
+        return;
+      }
+      const stateBefore = this.state;
+      const reducing = action.type === apply_patch.type ? this.toPatchedState(action) : action;
+      if (reducing) {
+        this.collect(() => this.actionIn$.next(reducing));
+      }
+      if (transaction && transaction.failure) {
+        if (!transaction.deferred && transaction.failure.policy === 'rethrow') {
+          throw transaction.failure.error;
+        }
+        return;
+      }
+      if (!reducing) {
+        return;
+      }
+      const reduced = {action, stateBefore, stateAfter: this.state};
+      if (this.transactions.length) {
+        this.held.push(reduced);
+      } else {
+        this.reducedOut$.next(reduced);
+      }
+    });
+  }
+
+  /** Applies the `apply_patch` action to the whole state, returns a `replace_state` action with the result (`null` reporting errors). */
+  private toPatchedState(action: Action<PatchOperation[]>) {
+    try {
+      return replace_state.new(applyPatch(this.state, action.value));
+    } catch (error) {
+      this.errorIn$.next({error, action, key: ''});
+      this.failTransaction(error, 'skip');
+      return null;
+    }
+  }
+
+  /** Fails the innermost transaction (if any) by the `error`, returns the `ErrorPolicy` to apply (skipping the action in a transaction). */
+  private failTransaction(error: any, policy: ErrorPolicy): ErrorPolicy {
+    const transaction = this.transactions[this.transactions.length - 1];
+    if (!transaction) {
+      return policy;
+    }
+    transaction.failure = transaction.failure || {error, policy};
+    return 'skip';
+  }
+
+  /**
+   * Runs the `task` handling reducer errors by the `errorPolicy`.
+   * Tasks started while reducing (e.g. dispatches of `state$` subscribers) are queued and run after the current one.
+   */
+  private run(task: () => void) {
+    this.queue.push(task);
+    if (this.reducing) {
+      return;
+    }
+    this.reducing = true;
+    const outerHandler = reducerErrorHandler;
+    reducerErrorHandler = (error) => {
+      this.errorIn$.next(error);
+      return this.failTransaction(error.error, typeof this.errorPolicy === 'function' ? this.errorPolicy(error) : this.errorPolicy);
+    };
+    try {
+      while (this.queue.length) {
+        this.queue.shift()();
+      }
+    } finally {
+      this.reducing = false;
+      reducerErrorHandler = outerHandler;
+    }
+  }
+
+  private next(state: T) {
+    this.state = this.freeze ? deepFreeze(state) : state;
+    this.stateCurrent$.next(state);
+  }
 
   getState() {
     return this.state;
   }
 
   dispatch(action: Action<any>) {
-    this.actionIn$.next(action);
+    this.dispatchChain(action);
+  }
+
+  dispatchBatch(actions: Action<any>[]) {
+    this.transaction(() => (actions || []).forEach((action) => this.dispatch(action)));
+  }
+
+  transaction(work: () => void) {
+    const transaction: StoreTransaction = {id: ++this.checkpoints, held: 0, deferred: this.reducing};
+    if (transaction.deferred) {
+      const queued = this.queue.length;
+      this.queue.push(() => this.beginTransaction(transaction));
+      try {
+        work();
+      } catch (error) {
+        this.queue.splice(queued);
+        throw error;
+      }
+      this.queue.push(() => this.endTransaction(true));
+      return;
+    }
+    this.run(() => this.beginTransaction(transaction));
+    let commit = false;
+    try {
+      work();
+      commit = true;
+    } finally {
+      this.run(() => this.endTransaction(commit));
+    }
+    if (transaction.failure && transaction.failure.policy === 'rethrow') {
+      throw transaction.failure.error;
+    }
+  }
+
+  /** Saves the states at the start of the `transaction`. */
+  private beginTransaction(transaction: StoreTransaction) {
+    transaction.held = this.held.length;
+    this.transactions.push(transaction);
+    this.collect(() => this.actionIn$.next(<Action<Checkpoint>>{type: CHECKPOINT, value: {id: transaction.id, op: 'save'}}));
+  }
+
+  /**
+   * Ends the innermost transaction restoring the saved states and dropping its held actions unless `commit` (and not failed),
+   * emits the final state and the held actions at the end of the outermost transaction.
+   */
+  private endTransaction(commit: boolean) {
+    const {id, held, failure} = this.transactions[this.transactions.length - 1];
+    commit = commit && !failure;
+    if (!commit) {
+      this.held.splice(held);
+    }
+    this.collect(() => this.actionIn$.next(<Action<Checkpoint>>{type: CHECKPOINT, value: {id, op: commit ? 'release' : 'restore'}}));
+    this.transactions.pop();
+    if (!this.transactions.length) {
+      this.transactionEnd$.next(commit);
+      this.held.splice(0).forEach((reduced) => this.reducedOut$.next(reduced));
+    }
+  }
+
+  addSlice<S>(key: string, createState: StreamToState<S>) {
+    if (key in this.slices) {
+      throw new Error(`Store: slice already added: ${key}`);
+    }
+    const slice: StoreSlice = {subscription: Subscription.EMPTY, received: false};
+    this.slices[key] = slice;
+    this.collect(
+      () =>
+        (slice.subscription = this.subscribeSlice(
+          slice,
+          createState(scopeActions(concat(this.checks$, this.preload$, this.actionIn$), key)),
+        )),
+    );
+  }
+
+  removeSlice(key: string) {
+    if (key in this.slices) {
+      this.slices[key].subscription.unsubscribe();
+      delete this.slices[key];
+      this.publish();
+    }
+  }
+
+  addEffect(effect: Effect<T>, options?: EffectOptions) {
+    const onError = (options && options.onError) || ((error: any) => console.error(error));
+    const resubscribeLimit = options && typeof options.resubscribeLimit === 'number' ? options.resubscribeLimit : 10;
+    let errors = 0;
+    return defer(() => effect(this.action$, this.stateCurrent$.pipe(distinctUntilChanged())))
+      .pipe(
+        catchError((error, caught) => {
+          onError(error);
+          return ++errors > resubscribeLimit ? EMPTY : caught;
+        }),
+        takeUntil(this.done$),
+      )
+      .subscribe((action) => this.dispatch(action));
+  }
+
+  snapshot() {
+    return serializeSnapshot(this.getState(), this.serializers);
+  }
+
+  restore(snapshot: string) {
+    this.dispatch(replace_state.new(deserializeSnapshot<T>(snapshot, this.serializers)));
   }
 
   destruct() {
+    this.done$.next();
+    this.done$.complete();
+    this.transactionEnd$.complete();
     this.actionIn$.complete();
+    this.reducedOut$.complete();
+    this.errorIn$.complete();
+    this.stateCurrent$.complete();
   }
 }
 
@@ -247,22 +1273,29 @@ class StoreImpl<T> implements Store<T> {
  * const state$_ = assemble$_(...);
  * ...
  * const store = createStore(state$_);
+ * ...
+ * const storeWithLogger = createStore(state$_, {middlewares: [logger]});
+ * ...
+ * const storeClient = createStore(state$_, {preloadedState: deserializeSnapshot(document.getElementById('state').textContent)});
+ * ...
+ * const storeChecked = createStore(state$_, {devChecks: !environment.production});
  */
-export const createStore = <T>(createState: StreamToState<T>) => new StoreImpl(createState);
+export const createStore = <T>(createState: StreamToState<T>, options?: StoreOptions<T>) => new StoreImpl(createState, options);
 
 /**
  * Helper function for watching substates.
  *
  * @param selector mapper function e.g. `st => st.ui.enabled`
+ * @param equal optional comparator of the selected values (default: identity) e.g. `deepEqual`
  *
  * @example
  * enabled$ = this.stateService.state$.pipe(watch(st => st.ui.enabled));
  */
-export function watch<T, R>(selector: (state: T) => R): OperatorFunction<T, R> {
+export function watch<T, R>(selector: (state: T) => R, equal?: Equality<R>): OperatorFunction<T, R> {
   return (source: Observable<T>) =>
     source.pipe(
       map((st) => selector(st)),
-      distinctUntilChanged(),
+      distinctUntilChanged(equal),
     );
 }
 
@@ -288,6 +1321,7 @@ export class RxState<S> {
 
   private readonly done$ = new Subject();
   private readonly currentState$ = new BehaviorSubject<S>(null);
+  private readonly runs: Record<string, Subscription> = {};
 
   /** Reactive state (use with `.pipe(select(...))` operator) */
   public readonly state$ = this.currentState$.pipe(shareReplay({refCount: true, bufferSize: 1}), takeUntil(this.done$));
@@ -306,13 +1340,32 @@ export class RxState<S> {
   dbgGetStore = () => this.store;
 
   /**
-   * Dispatch an `Action` using an `Actor`, typesafe value and optionally a pre-`transform` function.
+   * Runs the `work` (e.g. multiple `act` calls) with `state$` emitting only the final state afterwards.
+   * @example
+   * rxState.transaction(() => {
+   *   rxState.act(reset_filter, DEFAULT_FILTER);
+   *   rxState.act(set_sortAsc, true);
+   * });
+   */
+  transaction = (work: () => void) => this.store.transaction(work);
+
+  /**
+   * Registers an `Effect` in the `Store`, it is torn down on `destroy()` at the latest.
+   * @example
+   * rxState.effect((action$) => action$.pipe(filter((action) => action.type === logout.type), map(() => reset_user.new(null))));
+   */
+  effect = (effect: Effect<S>, options?: EffectOptions) => this.store.addEffect(effect, options);
+
+  /**
+   * Dispatch an `Action` using an `Actor`, typesafe value and optionally a pre-`transform` function and `meta` data.
    * @example
    * const set_locale = actor<string>('SET', STATE, STATE_GLOBAL, 'locale');
    * ...
    * rxState.act(set_locale, newCurrentLocale, or_('en_US'));
+   * rxState.act(set_locale, newCurrentLocale, null, {source: 'header'});
    */
-  act = <T>(act: Actor<T>, value: T, transform?: (val: T) => T) => this.store.dispatch(act.new(transform ? transform(value) : value));
+  act = <T, M = any>(act: Actor<any, M, T>, value: T, transform?: (val: T) => T, meta?: M) =>
+    this.store.dispatch(act.new(transform ? transform(value) : value, meta));
 
   /**
    * Create a dispatcher of an `Action` using an `Actor` optionally a pre-`transform` function.
@@ -323,5 +1376,54 @@ export class RxState<S> {
    * ...
    * act_set_locale(newCurrentLocale);
    */
-  act_ = <T>(act: Actor<T>, transform?: (val: T) => T) => (value: T) => this.act(act, value, transform);
+  act_ = <T, M = any>(act: Actor<any, M, T>, transform?: (val: T) => T) => (value: T, meta?: M) => this.act(act, value, transform, meta);
+
+  /**
+   * Runs the asynchronous `work` dispatching the lifecycle actions of the `AsyncActor`, a previous run of the same `AsyncActor` is cancelled.
+   * @example
+   * const load_products = asyncActor<ProductsFilter, string[]>('LOAD', STATETAG, 'products');
+   * ...
+   * rxState.run(load_products, (filter) => api.httpGetProducts$(filter), filter);
+   */
+  run = <P, R, E = any>(act: AsyncActor<P, R, E>, work: (params: P) => Promise<R> | Observable<R>, params: P) => {
+    const key = act.started.type;
+    if (this.runs[key]) {
+      this.runs[key].unsubscribe();
+    }
+    this.act(act.started, params);
+    const run = defer(() => work(params))
+      .pipe(takeUntil(this.done$))
+      .subscribe(
+        (result) => this.act(act.done, {params, result}),
+        (error) => this.act(act.failed, {params, error}),
+      );
+    this.runs[key] = run;
+    run.add(() => (this.runs[key] === run ? delete this.runs[key] : null));
+    return run;
+  };
+
+  /**
+   * Create a runner of the asynchronous `work` using an `AsyncActor` (see `run`).
+   * @example
+   * const load_products = rxState.run_(load_products, (filter) => api.httpGetProducts$(filter));
+   * ...
+   * load_products(filter);
+   */
+  run_ = <P, R, E = any>(act: AsyncActor<P, R, E>, work: (params: P) => Promise<R> | Observable<R>) => (params: P) =>
+    this.run(act, work, params);
 }
+
+export * from './async-actor';
+export * from './devtools';
+export * from './entity';
+export * from './equal';
+export * from './patch';
+export * from './persist';
+export * from './recorder';
+export * from './reducers';
+export * from './selector';
+export * from './slice';
+export * from './snapshot';
+export * from './sync';
+export * from './typed';
+export * from './undoable';
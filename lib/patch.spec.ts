@@ -0,0 +1,162 @@
+import {
+  actor,
+  apply_patch,
+  applyPatch,
+  assemble$_,
+  clearActorTypes,
+  createStore,
+  diff$,
+  diffStates,
+  PatchOperation,
+  redSetPropertyIfNotSame_,
+  toState$_,
+} from './index';
+
+describe('patch', () => {
+  afterEach(() => clearActorTypes());
+
+  test('diffStates', () => {
+    const nested = {e: [1, 2]};
+    const previous = <any>{a: 1, b: {c: 'c', d: true}, n: nested, l: [1, 2, 3], 'x/y~': 0};
+    expect(diffStates(previous, previous)).toEqual([]);
+    expect(diffStates(previous, {...previous})).toEqual([]);
+    expect(diffStates(previous, {a: 2, b: {c: 'c'}, n: nested, l: [1, 5], 'x/y~': 1, f: null})).toEqual([
+      {op: 'replace', path: '/a', value: 2},
+      {op: 'remove', path: '/b/d'},
+      {op: 'replace', path: '/l/1', value: 5},
+      {op: 'remove', path: '/l/2'},
+      {op: 'replace', path: '/x~1y~0', value: 1},
+      {op: 'add', path: '/f', value: null},
+    ]);
+    expect(diffStates({l: [1]}, {l: [1, 2, 3]})).toEqual([
+      {op: 'add', path: '/l/1', value: 2},
+      {op: 'add', path: '/l/2', value: 3},
+    ]);
+    expect(diffStates({d: new Date(0)}, {d: new Date(0)})).toEqual([{op: 'replace', path: '/d', value: new Date(0)}]);
+    expect(diffStates(1, 2)).toEqual([{op: 'replace', path: '', value: 2}]);
+  });
+
+  test('applyPatch', () => {
+    const state = <any>{a: 1, b: {c: 'c', d: true}, n: {e: [1, 2]}, l: [1, 2, 3], 'x/y~': 0};
+    expect(applyPatch(state, [])).toBe(state);
+    expect(applyPatch(state, [{op: 'replace', path: '/a', value: 1}])).toBe(state);
+    expect(applyPatch(state, [{op: 'test', path: '/n', value: {e: [1, 2]}}])).toBe(state);
+
+    const patched = applyPatch(state, [
+      {op: 'replace', path: '/b/c', value: 'patched'},
+      {op: 'add', path: '/l/1', value: 9},
+      {op: 'add', path: '/l/-', value: 10},
+      {op: 'remove', path: '/l/0'},
+      {op: 'replace', path: '/x~1y~0', value: 1},
+      {op: 'add', path: '/f', value: 'f'},
+    ]);
+    expect(patched).toEqual({a: 1, b: {c: 'patched', d: true}, n: {e: [1, 2]}, l: [9, 2, 3, 10], 'x/y~': 1, f: 'f'});
+    expect(patched.n).toBe(state.n);
+    expect(state).toEqual({a: 1, b: {c: 'c', d: true}, n: {e: [1, 2]}, l: [1, 2, 3], 'x/y~': 0});
+
+    expect(
+      applyPatch(state, [
+        {op: 'move', from: '/b/c', path: '/c'},
+        {op: 'copy', from: '/n/e', path: '/e'},
+      ]),
+    ).toEqual({a: 1, b: {d: true}, c: 'c', n: {e: [1, 2]}, l: [1, 2, 3], 'x/y~': 0, e: [1, 2]});
+    expect(applyPatch(state, [{op: 'replace', path: '', value: 'root'}])).toBe('root');
+
+    expect(() => applyPatch(state, [{op: 'replace', path: '/missing', value: 1}])).toThrowError('Patch path not found: /missing');
+    expect(() => applyPatch(state, [{op: 'add', path: '/missing/a', value: 1}])).toThrowError('Patch path not found: /missing/a');
+    expect(() => applyPatch(state, [{op: 'remove', path: '/l/3'}])).toThrowError('Patch path not found: /l/3');
+    expect(() => applyPatch(state, [{op: 'test', path: '/a', value: 2}])).toThrowError('Patch test failed: /a');
+    expect(() => applyPatch(state, [<PatchOperation>(<unknown>{op: 'merge', path: '/a'})])).toThrowError('Patch operation unknown: merge');
+  });
+
+  test('diff$ of store roundtrips with apply_patch', () => {
+    interface TestNested {
+      e?: string;
+      f?: string[];
+    }
+    interface Test {
+      a?: number;
+      d?: TestNested;
+    }
+
+    const set_a = actor<number>('SetA');
+    const set_e = actor<string>('SetE');
+    const state$ = assemble$_(toState$_(<Test>{a: 0, d: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {
+      d: toState$_(<TestNested>{e: '', f: []}, {[set_e.type]: redSetPropertyIfNotSame_('e')}),
+    });
+
+    const source = createStore(state$);
+    const mirror = createStore(state$);
+    const patches = <PatchOperation[][]>[];
+    diff$(source.state$).subscribe((patch) => {
+      patches.push(patch);
+      mirror.dispatch(apply_patch.new(patch));
+    });
+
+    source.dispatch(set_a.new(1));
+    source.dispatch(set_a.new(1));
+    source.dispatch(set_e.new('e'));
+    expect(patches).toEqual([[{op: 'replace', path: '/a', value: 1}], [{op: 'replace', path: '/d/e', value: 'e'}]]);
+    expect(mirror.getState()).toEqual(source.getState());
+
+    const nested = mirror.getState().d;
+    mirror.dispatch(
+      apply_patch.new([
+        {op: 'add', path: '/d/f/-', value: 'f'},
+        {op: 'replace', path: '/a', value: 2},
+      ]),
+    );
+    expect(mirror.getState()).toEqual({a: 2, d: {e: 'e', f: ['f']}});
+    mirror.dispatch(set_e.new('mirror'));
+    expect(mirror.getState()).toEqual({a: 2, d: {e: 'mirror', f: ['f']}});
+    expect(nested).toEqual({e: 'e', f: []});
+
+    mirror.dispatch(apply_patch.new([{op: 'replace', path: '', value: {a: 3, d: {e: 'root', f: []}}}]));
+    expect(mirror.getState()).toEqual({a: 3, d: {e: 'root', f: []}});
+  });
+
+  test('apply_patch applies the whole patch or reports its error', () => {
+    interface Test {
+      a?: number;
+      d?: {e?: string};
+    }
+    const set_a = actor<number>('SetA');
+    const store = createStore(
+      assemble$_(toState$_(<Test>{a: 0, d: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {d: toState$_({e: ''}, {})}),
+    );
+    const errors = [];
+    const actions = [];
+    store.error$.subscribe((_) => errors.push({message: _.error.message, action: _.action, key: _.key}));
+    store.action$.subscribe((_) => actions.push(_));
+
+    const failing = apply_patch.new([
+      {op: 'replace', path: '/a', value: 1},
+      {op: 'test', path: '/d/e', value: 'x'},
+    ]);
+    store.dispatch(failing);
+    store.dispatch(apply_patch.new([{op: 'replace', path: '/b', value: 1}]));
+    expect(store.getState()).toEqual({a: 0, d: {e: ''}});
+    expect(errors).toEqual([
+      {message: 'Patch test failed: /d/e', action: failing, key: ''},
+      {message: 'Patch path not found: /b', action: apply_patch.new([{op: 'replace', path: '/b', value: 1}]), key: ''},
+    ]);
+    expect(actions).toEqual([]);
+
+    const state = store.getState();
+    const patch = apply_patch.new([
+      {op: 'replace', path: '/a', value: 1},
+      {op: 'move', from: '/d/e', path: '/d/f'},
+    ]);
+    store.dispatch(patch);
+    expect(store.getState()).toEqual({a: 1, d: {f: ''}});
+    expect(actions).toEqual([patch]);
+
+    const nested = store.getState().d;
+    store.dispatch(apply_patch.new([{op: 'replace', path: '/a', value: 2}]));
+    expect(store.getState().d).toBe(nested);
+    store.dispatch(set_a.new(3));
+    expect(store.getState()).toEqual({a: 3, d: {f: ''}});
+    expect(state).toEqual({a: 0, d: {e: ''}});
+    store.destruct();
+  });
+});
@@ -0,0 +1,191 @@
+import {Observable} from 'rxjs';
+import {filter, map, pairwise} from 'rxjs/operators';
+import {deepEqual} from './equal';
+
+/** RFC 6902 JSON Patch operation, `path` and `from` are RFC 6901 JSON Pointers e.g. `'/filter/tags/0'`. */
+export type PatchOperation =
+  | {op: 'add'; path: string; value: any}
+  | {op: 'remove'; path: string}
+  | {op: 'replace'; path: string; value: any}
+  | {op: 'move'; from: string; path: string}
+  | {op: 'copy'; from: string; path: string}
+  | {op: 'test'; path: string; value: any};
+
+const isPlainObject = (value: any) =>
+  !!value && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/** Helper: escapes a key for a JSON Pointer. */
+export const toPointerToken = (key: string | number) => `${key}`.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const parsePointer = (pointer: string) =>
+  pointer
+    ? pointer
+        .split('/')
+        .slice(1)
+        .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    : [];
+
+const diffInto = (previous: any, next: any, path: string, ops: PatchOperation[]) => {
+  if (previous === next) {
+    return;
+  }
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const common = Math.min(previous.length, next.length);
+    for (let ii = 0; ii < common; ++ii) {
+      diffInto(previous[ii], next[ii], `${path}/${ii}`, ops);
+    }
+    for (let ii = common; ii < next.length; ++ii) {
+      ops.push({op: 'add', path: `${path}/${ii}`, value: next[ii]});
+    }
+    for (let ii = previous.length - 1; ii >= common; --ii) {
+      ops.push({op: 'remove', path: `${path}/${ii}`});
+    }
+  } else if (isPlainObject(previous) && isPlainObject(next)) {
+    Object.keys(previous)
+      .filter((key) => !(key in next))
+      .forEach((key) => ops.push({op: 'remove', path: `${path}/${toPointerToken(key)}`}));
+    Object.keys(next).forEach((key) =>
+      key in previous
+        ? diffInto(previous[key], next[key], `${path}/${toPointerToken(key)}`, ops)
+        : ops.push({op: 'add', path: `${path}/${toPointerToken(key)}`, value: next[key]}),
+    );
+  } else {
+    ops.push({op: 'replace', path, value: next});
+  }
+};
+
+/**
+ * Helper: returns the JSON Patch operations changing `previous` into `next`, identical subtrees are skipped.
+ * @example
+ * diffStates({a: 1, b: {c: 2}}, {a: 1, b: {c: 3}}); // [{op: 'replace', path: '/b/c', value: 3}]
+ */
+export const diffStates = <T>(previous: T, next: T): PatchOperation[] => {
+  const ops: PatchOperation[] = [];
+  diffInto(previous, next, '', ops);
+  return ops;
+};
+
+/**
+ * Emits the JSON Patch operations between consecutive states of the `state$` (usable as operator), unchanged states are skipped.
+ * @example
+ * store.state$.pipe(diff$).subscribe((patch) => api.httpPatchState(patch));
+ */
+export const diff$ = <T>(state$: Observable<T>): Observable<PatchOperation[]> =>
+  state$.pipe(
+    pairwise(),
+    map(([previous, next]) => diffStates(previous, next)),
+    filter((patch) => patch.length > 0),
+  );
+
+const getAt = (state: any, tokens: string[], pointer: string) =>
+  tokens.reduce((acc, token) => {
+    if (acc === null || typeof acc !== 'object' || !(token in acc)) {
+      throw new Error(`Patch path not found: ${pointer}`);
+    }
+    return acc[token];
+  }, state);
+
+/** Returns a copy of `state` with the container at `tokens` replaced by `update(container, key)`. */
+const updateAt = (state: any, tokens: string[], pointer: string, update: (container: any, key: string) => any): any => {
+  if (state === null || typeof state !== 'object') {
+    throw new Error(`Patch path not found: ${pointer}`);
+  }
+  const [key, ...rest] = tokens;
+  if (!rest.length) {
+    return update(state, key);
+  }
+  if (!(key in state)) {
+    throw new Error(`Patch path not found: ${pointer}`);
+  }
+  const changed = updateAt(state[key], rest, pointer, update);
+  return changed === state[key] ? state : Object.assign(Array.isArray(state) ? [] : {}, state, {[key]: changed});
+};
+
+const arrayIndex = (items: any[], key: string, pointer: string, max: number) => {
+  const index = key === '-' ? items.length : +key;
+  if (!/^(0|[1-9][0-9]*|-)$/.test(key) || index > max) {
+    throw new Error(`Patch path not found: ${pointer}`);
+  }
+  return index;
+};
+
+const add = (state: any, pointer: string, value: any) => {
+  const tokens = parsePointer(pointer);
+  return !tokens.length
+    ? value
+    : updateAt(state, tokens, pointer, (container, key) => {
+        if (!Array.isArray(container)) {
+          return container[key] === value && key in container ? container : {...container, [key]: value};
+        }
+        const index = arrayIndex(container, key, pointer, container.length);
+        return [...container.slice(0, index), value, ...container.slice(index)];
+      });
+};
+
+const remove = (state: any, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  return !tokens.length
+    ? undefined
+    : updateAt(state, tokens, pointer, (container, key) => {
+        if (Array.isArray(container)) {
+          const index = arrayIndex(container, key, pointer, container.length - 1);
+          return container.filter((_, ii) => ii !== index);
+        }
+        if (!(key in container)) {
+          throw new Error(`Patch path not found: ${pointer}`);
+        }
+        const {[key]: removed, ...rest} = container;
+        return rest;
+      });
+};
+
+const replace = (state: any, pointer: string, value: any) => {
+  const tokens = parsePointer(pointer);
+  return !tokens.length
+    ? value
+    : updateAt(state, tokens, pointer, (container, key) => {
+        if (Array.isArray(container)) {
+          const index = arrayIndex(container, key, pointer, container.length - 1);
+          return container[index] === value ? container : container.map((item, ii) => (ii === index ? value : item));
+        }
+        if (!(key in container)) {
+          throw new Error(`Patch path not found: ${pointer}`);
+        }
+        return container[key] === value ? container : {...container, [key]: value};
+      });
+};
+
+const applyOperation = (state: any, operation: PatchOperation) => {
+  switch (operation.op) {
+    case 'add':
+      return add(state, operation.path, operation.value);
+    case 'remove':
+      return remove(state, operation.path);
+    case 'replace':
+      return replace(state, operation.path, operation.value);
+    case 'move': {
+      const value = getAt(state, parsePointer(operation.from), operation.from);
+      return operation.from === operation.path ? state : add(remove(state, operation.from), operation.path, value);
+    }
+    case 'copy':
+      return add(state, operation.path, getAt(state, parsePointer(operation.from), operation.from));
+    case 'test':
+      if (!deepEqual(getAt(state, parsePointer(operation.path), operation.path), operation.value)) {
+        throw new Error(`Patch test failed: ${operation.path}`);
+      }
+      return state;
+    default:
+      throw new Error(`Patch operation unknown: ${(operation as any).op}`);
+  }
+};
+
+/**
+ * Reducer applying the JSON Patch operations to the `state` immutably (untouched subtrees keep their references).
+ * Throws if a path is not found or a `test` operation fails.
+ * @example
+ * const reducers = {[patch_filter.type]: applyPatch};
+ * ...
+ * store.dispatch(apply_patch.new([{op: 'replace', path: '/filter/nameFilter', value: 'apple'}]));
+ */
+export const applyPatch = <T>(state: T, patch: PatchOperation[]): T =>
+  (patch || []).reduce<T>((acc, operation) => applyOperation(acc, operation), state);
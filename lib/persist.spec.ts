@@ -0,0 +1,197 @@
+import {
+  actor,
+  createMemoryStorage,
+  createStore,
+  createWebStorage,
+  initReduceAssemble$_,
+  persistState$_,
+  PersistStorage,
+  redSetPropertyIfNotSame_,
+  RxState,
+  toState$_,
+} from './index';
+
+describe('persist', () => {
+  interface TestFilter {
+    name?: string;
+  }
+  interface Test {
+    filter?: TestFilter;
+    products?: string[];
+    sortAsc?: boolean;
+  }
+
+  const set_name = actor<string>('SetName');
+  const set_products = actor<string[]>('SetProducts');
+  const set_sortAsc = actor<boolean>('SetSortAsc');
+  const state$ = initReduceAssemble$_(
+    <Test>{filter: null, products: [], sortAsc: true},
+    {
+      [set_products.type]: redSetPropertyIfNotSame_('products'),
+      [set_sortAsc.type]: redSetPropertyIfNotSame_('sortAsc'),
+    },
+    {filter: initReduceAssemble$_(<TestFilter>{name: ''}, {[set_name.type]: redSetPropertyIfNotSame_('name')})},
+  );
+
+  test('writes filtered state', () => {
+    const storage = createMemoryStorage();
+    const store = createStore(persistState$_(state$, {key: 'test', storage, denyKeys: ['products'], version: 1}));
+
+    expect(JSON.parse(<string>storage.getItem('test'))).toEqual({version: 1, state: {filter: {name: ''}, sortAsc: true}});
+
+    store.dispatch(set_name.new('name'));
+    store.dispatch(set_products.new(['a']));
+    expect(JSON.parse(<string>storage.getItem('test'))).toEqual({version: 1, state: {filter: {name: 'name'}, sortAsc: true}});
+
+    const storageAllow = createMemoryStorage();
+    const storeAllow = createStore(persistState$_(state$, {key: 'test', storage: storageAllow, allowKeys: ['sortAsc']}));
+    expect(JSON.parse(<string>storageAllow.getItem('test'))).toEqual({version: 0, state: {sortAsc: true}});
+
+    store.destruct();
+    storeAllow.destruct();
+  });
+
+  test('rehydrates before first emission', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('test', JSON.stringify({version: 0, state: {filter: {name: 'stored'}, products: ['ignored'], sortAsc: false}}));
+
+    const rxState = new RxState(createStore(persistState$_(state$, {key: 'test', storage, denyKeys: ['products']})));
+    const states = [];
+    rxState.dbgGetStore().state$.subscribe((state) => states.push(state));
+
+    expect(states).toEqual([{filter: {name: 'stored'}, products: [], sortAsc: false}]);
+    expect(rxState.getState()).toEqual({filter: {name: 'stored'}, products: [], sortAsc: false});
+
+    rxState.act(set_name, 'changed');
+    expect(rxState.getState()).toEqual({filter: {name: 'changed'}, products: [], sortAsc: false});
+
+    rxState.destroy();
+  });
+
+  test('migrates versions', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('test', JSON.stringify({version: 1, state: {filter: {nameFilter: 'old'}}}));
+
+    const store = createStore(
+      persistState$_(state$, {
+        key: 'test',
+        storage,
+        version: 3,
+        migrations: {
+          2: (state) => ({...state, filter: {name: state.filter.nameFilter}}),
+          3: (state) => ({...state, sortAsc: false}),
+        },
+      }),
+    );
+    expect(store.getState()).toEqual({filter: {name: 'old'}, products: [], sortAsc: false});
+    expect(JSON.parse(<string>storage.getItem('test')).version).toBe(3);
+    store.destruct();
+
+    storage.setItem('test', JSON.stringify({version: 4, state: {sortAsc: false}}));
+    const storeNewer = createStore(persistState$_(state$, {key: 'test', storage, version: 3}));
+    expect(storeNewer.getState()).toEqual({filter: {name: ''}, products: [], sortAsc: true});
+    storeNewer.destruct();
+  });
+
+  test('handles broken storage', () => {
+    const errors = [];
+    const storage = <PersistStorage>{
+      getItem: () => '{broken',
+      setItem: () => {
+        throw new Error('full');
+      },
+    };
+    const store = createStore(persistState$_(state$, {key: 'test', storage, onError: (error) => errors.push(error)}));
+    expect(store.getState()).toEqual({filter: {name: ''}, products: [], sortAsc: true});
+    expect(errors.length).toBe(2);
+    store.destruct();
+  });
+
+  test('rehydrates from async storage', async () => {
+    const items = {test: JSON.stringify({version: 0, state: {sortAsc: false}})};
+    const storage = <PersistStorage>{
+      getItem: (key) => Promise.resolve(items[key]),
+      setItem: (key, value) => Promise.resolve().then(() => (items[key] = value)),
+    };
+    const store = createStore(persistState$_(state$, {key: 'test', storage}));
+    expect(store.getState()).toBe(null);
+
+    store.dispatch(set_name.new('early'));
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(store.getState()).toEqual({filter: {name: 'early'}, products: [], sortAsc: false});
+    expect(JSON.parse(items.test).state).toEqual({filter: {name: 'early'}, products: [], sortAsc: false});
+    store.destruct();
+  });
+
+  test('applies the dev checks of the store after an async read', async () => {
+    const push_product_mutating = actor<string>('PushProductMutating');
+    const storage = <PersistStorage>{getItem: () => Promise.resolve(null), setItem: () => Promise.resolve()};
+    const violations = [];
+    const store = createStore(
+      persistState$_(
+        toState$_(<Test>{products: []}, {
+          [push_product_mutating.type]: (state, value: string) => {
+            state.products.push(value);
+            return state;
+          },
+        }),
+        {key: 'test', storage},
+      ),
+      {devChecks: {report: (violation) => violations.push(violation)}},
+    );
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(Object.isFrozen(store.getState().products)).toBe(true);
+    store.dispatch(push_product_mutating.new('mutated'));
+    expect(store.getState()).toEqual({products: []});
+    expect(violations.map((_) => _.check)).toEqual(['mutation']);
+    store.destruct();
+  });
+
+  test('keeps the persisted state when adding slices', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('test', JSON.stringify({version: 0, state: {sortAsc: false}}));
+    const getItem = jest.spyOn(storage, 'getItem');
+    const store = createStore(persistState$_(state$, {key: 'test', storage}));
+    store.dispatch(set_name.new('name'));
+
+    store.addSlice('lazy', toState$_('lazy', {}));
+    expect(store.getState()).toEqual({filter: {name: 'name'}, products: [], sortAsc: false, lazy: 'lazy'});
+    expect(getItem).toHaveBeenCalledTimes(1);
+
+    store.removeSlice('lazy');
+    store.dispatch(set_sortAsc.new(true));
+    expect(store.getState()).toEqual({filter: {name: 'name'}, products: [], sortAsc: true});
+    expect(getItem).toHaveBeenCalledTimes(1);
+    store.destruct();
+  });
+
+  test('throttles writes', () => {
+    jest.useFakeTimers();
+    const storage = createMemoryStorage();
+    const setItem = jest.spyOn(storage, 'setItem');
+    const store = createStore(persistState$_(state$, {key: 'test', storage, throttleMs: 100}));
+    expect(setItem).toHaveBeenCalledTimes(1);
+
+    store.dispatch(set_name.new('a'));
+    store.dispatch(set_name.new('ab'));
+    store.dispatch(set_name.new('abc'));
+    expect(setItem).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(100);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(<string>storage.getItem('test')).state.filter).toEqual({name: 'abc'});
+
+    store.destruct();
+    jest.useRealTimers();
+  });
+
+  test('createWebStorage', () => {
+    const items = {};
+    const storage = createWebStorage(<Storage>(<any>{getItem: (key) => items[key] || null, setItem: (key, value) => (items[key] = value)}));
+    storage.setItem('a', 'b');
+    expect(storage.getItem('a')).toBe('b');
+    expect(storage.getItem('b')).toBe(null);
+  });
+});
@@ -0,0 +1,163 @@
+import {asyncScheduler, concat, from, Observable, Subject, Subscription} from 'rxjs';
+import {shareReplay, throttleTime} from 'rxjs/operators';
+import {Action, bindState$_, replace_state, StreamToState} from './index';
+
+/** Key-value storage adapter, synchronous (e.g. Web Storage) or asynchronous (e.g. IndexedDB wrappers). */
+export interface PersistStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+/** Migrates a persisted state of the previous version to the version it is registered with. */
+export type PersistMigration = (state: any) => any;
+
+/** Options for `persistState$_`. */
+export interface PersistOptions<T> {
+  /** Storage key. */
+  key: string;
+  storage: PersistStorage;
+  /** Persisted slice keys (default: all). */
+  allowKeys?: (keyof T)[];
+  /** Not persisted slice keys. */
+  denyKeys?: (keyof T)[];
+  /** Minimum milliseconds between writes, the latest state is always written (default: `0` i.e. write every change). */
+  throttleMs?: number;
+  /** Schema version of the persisted state (default: `0`). */
+  version?: number;
+  /** Migrations by target version e.g. `{2: (state) => ({...state, sortAsc: true})}` migrates a state of version `1` to `2`. */
+  migrations?: Record<number, PersistMigration>;
+  /** Called on storage, parsing or migration errors (default: `console.error`). */
+  onError?: (error: any) => void;
+}
+
+interface PersistedState {
+  version: number;
+  state: any;
+}
+
+/** Creates an in-memory `PersistStorage` e.g. for testing. */
+export const createMemoryStorage = (): PersistStorage => {
+  const items: Record<string, string> = {};
+  return {
+    getItem: (key) => (key in items ? items[key] : null),
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+  };
+};
+
+/** Creates a `PersistStorage` from a Web Storage (default: `window.localStorage`). */
+export const createWebStorage = (storage?: Storage): PersistStorage => ({
+  getItem: (key) => (storage || window.localStorage).getItem(key),
+  setItem: (key, value) => (storage || window.localStorage).setItem(key, value),
+});
+
+const pickKeys = <T>(state: T, options: PersistOptions<T>): Partial<T> =>
+  Object.entries(state || {})
+    .filter(([key]) => !options.allowKeys || options.allowKeys.includes(key as keyof T))
+    .filter(([key]) => !options.denyKeys || !options.denyKeys.includes(key as keyof T))
+    .reduce<Partial<T>>((acc, [key, value]) => Object.assign(acc, {[key]: value}), {});
+
+const migrate = (persisted: PersistedState, options: PersistOptions<any>) => {
+  const version = options.version || 0;
+  if (!persisted || typeof persisted.version !== 'number' || persisted.version > version) {
+    return {};
+  }
+  let state = persisted.state;
+  for (let ii = persisted.version + 1; ii <= version; ++ii) {
+    const migration = options.migrations && options.migrations[ii];
+    state = migration ? migration(state) : state;
+  }
+  return state;
+};
+
+/**
+ * Returns a creator for a state Observable persisting the state created by `createState` into a storage. On subscription the persisted
+ * state is migrated and merged into the initial state (per slice key) before the first emission.
+ * *NOTE: with an asynchronous storage the first emission waits for the storage, actions dispatched meanwhile are reduced afterwards.*
+ * @example
+ * const state$_ = persistState$_(state_ui$, {key: 'ui', storage: createWebStorage(), allowKeys: ['viewProducts'], throttleMs: 500});
+ * ...
+ * const store = createStore(state$_);
+ */
+export const persistState$_ = <T extends object>(createState: StreamToState<T>, options: PersistOptions<T>): StreamToState<T> => {
+  const persisted$_ = bindState$_<T>(
+    (action$) =>
+      new Observable<T>((subscriber) => {
+        const onError = options.onError || ((error: any) => console.error(error));
+        const subscription = new Subscription();
+        const buffered: Action<any>[] = [];
+        const buffering = action$.subscribe((action) => buffered.push(action));
+        subscription.add(buffering);
+
+        const write$ = new Subject<T>();
+        subscription.add(
+          (options.throttleMs > 0
+            ? write$.pipe(throttleTime(options.throttleMs, asyncScheduler, {leading: true, trailing: true}))
+            : write$
+          ).subscribe((state) => {
+            try {
+              const persisted = <PersistedState>{version: options.version || 0, state: pickKeys(state, options)};
+              Promise.resolve(options.storage.setItem(options.key, JSON.stringify(persisted))).catch(onError);
+            } catch (error) {
+              onError(error);
+            }
+          }),
+        );
+
+        const start = (persisted: string) => {
+          if (subscriber.closed) {
+            return;
+          }
+          let snapshot = {};
+          try {
+            snapshot = pickKeys(migrate(persisted ? JSON.parse(persisted) : null, options), options);
+          } catch (error) {
+            onError(error);
+          }
+          buffering.unsubscribe();
+
+          const hydrate$ = new Subject<Action<any>>();
+          let hydrating = true;
+          let latest: T = null;
+          subscription.add(
+            createState(concat(hydrate$, from(buffered.splice(0)), action$)).subscribe({
+              next: (state) => {
+                latest = state;
+                if (!hydrating) {
+                  subscriber.next(state);
+                  write$.next(state);
+                }
+              },
+              error: (error) => subscriber.error(error),
+              complete: () => subscriber.complete(),
+            }),
+          );
+          if (Object.keys(snapshot).length) {
+            hydrate$.next(replace_state.new(Object.assign({}, latest, snapshot)));
+          }
+          hydrate$.complete();
+          hydrating = false;
+          subscriber.next(latest);
+          write$.next(latest);
+        };
+
+        try {
+          const persisted = options.storage.getItem(options.key);
+          if (persisted && typeof (persisted as Promise<string>).then === 'function') {
+            (persisted as Promise<string>).then(start, (error) => {
+              onError(error);
+              start(null);
+            });
+          } else {
+            start(persisted as string);
+          }
+        } catch (error) {
+          onError(error);
+          start(null);
+        }
+        return subscription;
+      }),
+  );
+  return (action$) => persisted$_(action$).pipe(shareReplay({refCount: true, bufferSize: 1}));
+};
@@ -0,0 +1,132 @@
+import {actor, assemble$_, createRecorder, createStore, redSetPropertyIfNotSame_, replayRecords, RxState, toState$_} from './index';
+
+describe('recorder', () => {
+  interface TestNested {
+    e?: string;
+  }
+  interface Test {
+    a?: number;
+    d?: TestNested;
+  }
+
+  const set_a = actor<number>('SetA');
+  const set_e = actor<string>('SetE');
+  const state$ = assemble$_(toState$_(<Test>{a: 0, d: null}, {[set_a.type]: redSetPropertyIfNotSame_('a')}), {
+    d: toState$_(<TestNested>{e: ''}, {[set_e.type]: redSetPropertyIfNotSame_('e')}),
+  });
+
+  test('records bounded log', () => {
+    const recorder = createRecorder<Test>({limit: 2});
+    const store = createStore(state$, {middlewares: [recorder.middleware]});
+
+    store.dispatch(set_a.new(1));
+    expect(recorder.getLog()).toEqual([
+      {action: set_a.new(1), stateBefore: {a: 0, d: {e: ''}}, stateAfter: {a: 1, d: {e: ''}}, timestamp: expect.any(Number)},
+    ]);
+
+    store.dispatch(set_e.new('e'));
+    store.dispatch(set_a.new(2));
+    expect(recorder.getLog().map((ii) => ii.action)).toEqual([set_e.new('e'), set_a.new(2)]);
+    expect(recorder.getLog().map((ii) => ii.stateAfter)).toEqual([
+      {a: 1, d: {e: 'e'}},
+      {a: 2, d: {e: 'e'}},
+    ]);
+
+    recorder.clear();
+    expect(recorder.getLog()).toEqual([]);
+
+    store.destruct();
+  });
+
+  test('jumps to recorded state', () => {
+    const recorder = createRecorder<Test>();
+    const store = createStore(state$, {middlewares: [recorder.middleware]});
+    const rxState = new RxState(store);
+
+    expect(() => recorder.jump(0)).toThrow();
+
+    rxState.act(set_a, 1);
+    rxState.act(set_e, 'e');
+    rxState.act(set_a, 2);
+
+    recorder.jump(0);
+    expect(store.getState()).toEqual({a: 1, d: {e: ''}});
+    expect(rxState.getState()).toEqual({a: 1, d: {e: ''}});
+    expect(recorder.getLog().length).toBe(3);
+
+    rxState.act(set_e, 'after');
+    expect(rxState.getState()).toEqual({a: 1, d: {e: 'after'}});
+
+    recorder.jump(2);
+    expect(rxState.getState()).toEqual({a: 2, d: {e: 'e'}});
+
+    rxState.destroy();
+  });
+
+  test('keeps full log on jumps', () => {
+    const recorder = createRecorder<Test>({limit: 3});
+    const store = createStore(state$, {middlewares: [recorder.middleware]});
+
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_e.new('e'));
+    store.dispatch(set_a.new(2));
+    const log = recorder.getLog();
+
+    recorder.jump(0);
+    recorder.jump(2);
+    recorder.jump(1);
+    expect(recorder.getLog()).toEqual(log);
+    expect(store.getState()).toEqual({a: 1, d: {e: 'e'}});
+
+    store.dispatch(set_a.new(3));
+    expect(recorder.replay(state$).getState()).toEqual({a: 3, d: {e: 'e'}});
+
+    store.destruct();
+  });
+
+  test('replays log into fresh store', () => {
+    const recorder = createRecorder<Test>({limit: 3});
+    const store = createStore(state$, {middlewares: [recorder.middleware]});
+
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_e.new('e'));
+    store.dispatch(set_a.new(2));
+    recorder.jump(1);
+    store.dispatch(set_a.new(3));
+
+    const replayed = recorder.replay(state$);
+    expect(replayed.getState()).toEqual({a: 3, d: {e: 'e'}});
+    expect(replayed.getState()).toEqual(store.getState());
+
+    expect(recorder.getLog().map((ii) => ii.action)).toEqual([set_e.new('e'), set_a.new(2), set_a.new(3)]);
+
+    const replayedJson = replayRecords(recorder.exportJson(), state$);
+    expect(replayedJson.getState()).toEqual(store.getState());
+
+    expect(replayRecords([], state$).getState()).toEqual({a: 0, d: {e: ''}});
+
+    store.destruct();
+    replayed.destruct();
+    replayedJson.destruct();
+  });
+
+  test('records re-entrant dispatches', () => {
+    const recorder = createRecorder<Test>();
+    const store = createStore(state$, {middlewares: [recorder.middleware]});
+    store.state$.subscribe((state) => state.a === 1 && !state.d.e && store.dispatch(set_e.new('e')));
+
+    store.dispatch(set_a.new(1));
+    store.transaction(() => {
+      store.dispatch(set_a.new(2));
+      store.dispatch(set_a.new(3));
+    });
+    expect(recorder.getLog().map(({action, stateBefore, stateAfter}) => ({action, stateBefore, stateAfter}))).toEqual([
+      {action: set_a.new(1), stateBefore: {a: 0, d: {e: ''}}, stateAfter: {a: 1, d: {e: ''}}},
+      {action: set_e.new('e'), stateBefore: {a: 1, d: {e: ''}}, stateAfter: {a: 1, d: {e: 'e'}}},
+      {action: set_a.new(2), stateBefore: {a: 1, d: {e: 'e'}}, stateAfter: {a: 2, d: {e: 'e'}}},
+      {action: set_a.new(3), stateBefore: {a: 2, d: {e: 'e'}}, stateAfter: {a: 3, d: {e: 'e'}}},
+    ]);
+
+    store.destruct();
+  });
+});
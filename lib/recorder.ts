@@ -0,0 +1,103 @@
+import {filter} from 'rxjs/operators';
+import {Action, createStore, deepEqual, Middleware, MiddlewareApi, replace_state, Store, StoreOptions, StreamToState} from './index';
+
+/** Entry of the `ActionRecorder` log. */
+export interface ActionRecord<T> {
+  action: Action<any>;
+  stateBefore: T;
+  stateAfter: T;
+  /** Milliseconds since epoch at time of reducing. */
+  timestamp: number;
+}
+
+/** Marker in the `meta` of the `replace_state` actions dispatched by `ActionRecorder.jump`. */
+const JUMP_META = '@@DD_RX_STATE_RECORDER_JUMP';
+
+/** Options for `createRecorder`. */
+export interface ActionRecorderOptions {
+  /** Maximum count of recorded entries, older entries are dropped (default: `50`). */
+  limit?: number;
+}
+
+/**
+ * Records the reduced actions of a `Store` together with the states before and after in a bounded log.
+ * The actions are recorded as emitted on `Store.action$` (queued ones after reducing, in a transaction on commit),
+ * so the position of the `middleware` in the `Store` doesn't matter.
+ * *NOTE: jumps are not recorded, replaying the log restores the `stateBefore` of an entry not following the previous one.*
+ */
+export class ActionRecorder<T> {
+  constructor(options?: ActionRecorderOptions) {
+    this.limit = options && options.limit > 0 ? options.limit : 50;
+  }
+
+  private readonly limit: number;
+  private log: ActionRecord<T>[] = [];
+  private store: MiddlewareApi<T> = null;
+
+  /** Records all actions reduced by the `Store`, to be added to the `StoreOptions.middlewares`. */
+  readonly middleware: Middleware<T> = (store) => {
+    this.store = store;
+    store.reduced$.pipe(filter(({action}) => !action.meta || !action.meta[JUMP_META])).subscribe(({action, stateBefore, stateAfter}) => {
+      this.log = [...this.log, {action, stateBefore, stateAfter, timestamp: Date.now()}].slice(-this.limit);
+    });
+    return (next) => next;
+  };
+
+  /** Returns a copy of the recorded log. */
+  getLog = () => [...this.log];
+
+  clear() {
+    this.log = [];
+  }
+
+  /** Returns the recorded log as JSON e.g. for attaching it to a bug report. */
+  exportJson = () => JSON.stringify(this.log);
+
+  /** Sets the state of the recorded `Store` to the state after the log entry at `index`, the log is kept. */
+  jump(index: number) {
+    if (!this.store) {
+      throw new Error('ActionRecorder: middleware is not added to a store');
+    }
+    if (index < 0 || index >= this.log.length) {
+      throw new Error(`ActionRecorder: no log entry at index ${index}`);
+    }
+    this.store.dispatch(replace_state.new(this.log[index].stateAfter, {[JUMP_META]: true}));
+  }
+
+  /** Replays the recorded log into a fresh `Store` created from `createState`. */
+  replay = (createState: StreamToState<T>, options?: StoreOptions<T>) => replayRecords(this.log, createState, options);
+}
+
+/**
+ * `ActionRecorder` factory.
+ * @example
+ * const recorder = createRecorder<UiState>({limit: 100});
+ * const store = createStore(state_ui$, {middlewares: [logger, recorder.middleware]});
+ * ...
+ * recorder.jump(3);
+ * ...
+ * const bugReport = recorder.exportJson();
+ */
+export const createRecorder = <T>(options?: ActionRecorderOptions) => new ActionRecorder<T>(options);
+
+/**
+ * Replays the `records` (or their JSON export) into a fresh `Store` created from `createState`, starting at the first recorded state.
+ * The state is replaced with the `stateBefore` of a record if it differs from the state after the previous one (e.g. after a jump).
+ * @example
+ * const store = replayRecords(bugReport, state_ui$);
+ */
+export const replayRecords = <T>(
+  records: ActionRecord<T>[] | string,
+  createState: StreamToState<T>,
+  options?: StoreOptions<T>,
+): Store<T> => {
+  const log: ActionRecord<T>[] = typeof records === 'string' ? JSON.parse(records) : records || [];
+  const store = createStore(createState, options);
+  log.forEach((record, index) => {
+    if (!index || !deepEqual(record.stateBefore, log[index - 1].stateAfter)) {
+      store.dispatch(replace_state.new(record.stateBefore));
+    }
+    store.dispatch(record.action);
+  });
+  return store;
+};
@@ -0,0 +1,136 @@
+import {
+  actor,
+  clearActorTypes,
+  createStore,
+  redArrayPush_,
+  redArrayRemoveWhere_,
+  redArrayUpsertBy_,
+  redIncrement_,
+  redSetIn_,
+  redToggle_,
+  redUpdateIn_,
+  toState$_,
+} from './index';
+
+describe('reducers', () => {
+  afterEach(() => clearActorTypes());
+
+  interface Product {
+    id: number;
+    name: string;
+  }
+  interface Filter {
+    tags?: {[key: string]: string};
+    name?: string;
+  }
+  interface Test {
+    count?: number;
+    enabled?: boolean;
+    filter?: Filter;
+    products?: Product[];
+    names?: string[];
+  }
+
+  test('redSetIn_', () => {
+    const state = <Test>{filter: {tags: {a: 'a'}, name: 'name'}, count: 0};
+    const tags = {b: 'b'};
+
+    const next = redSetIn_<Test, 'filter', 'tags'>(['filter', 'tags'])(state, tags);
+    expect(next).toEqual({filter: {tags: {b: 'b'}, name: 'name'}, count: 0});
+    expect(state.filter.tags).toEqual({a: 'a'});
+    expect(
+      redSetIn_<Test, 'filter', 'tags'>(['filter', 'tags'])(next, tags),
+    ).toBe(next);
+
+    expect(
+      redSetIn_<Test, 'filter', 'tags', string>(['filter', 'tags', 'c'])(<Test>{}, 'c'),
+    ).toEqual({filter: {tags: {c: 'c'}}});
+    expect(
+      redSetIn_<Test, 'count'>(['count'])(state, 1),
+    ).toEqual({...state, count: 1});
+
+    const list = {list: [1, 2]};
+    expect(
+      redSetIn_<typeof list, 'list', 1>(['list', 1])(list, 3),
+    ).toEqual({list: [1, 3]});
+  });
+
+  test('redUpdateIn_', () => {
+    const state = <Test>{filter: {tags: {a: 'a'}}};
+    const setTag = redUpdateIn_<Test, 'filter', 'tags', [string, string]>(['filter', 'tags'], (tags, [key, val]) =>
+      tags && tags[key] === val ? tags : {...tags, [key]: val},
+    );
+
+    const next = setTag(state, ['b', 'b']);
+    expect(next).toEqual({filter: {tags: {a: 'a', b: 'b'}}});
+    expect(setTag(next, ['b', 'b'])).toBe(next);
+    expect(setTag(null, ['c', 'c'])).toEqual({filter: {tags: {c: 'c'}}});
+  });
+
+  test('redArrayPush_ and redArrayRemoveWhere_', () => {
+    const push = redArrayPush_<Test, 'names'>('names');
+    const remove = redArrayRemoveWhere_<Test, 'names'>('names');
+    const removeStartingWith = redArrayRemoveWhere_<Test, 'names', string>('names', (item, prefix) => item.startsWith(prefix));
+
+    let state = push(<Test>{}, 'a');
+    state = push(state, 'b');
+    state = push(state, 'bb');
+    expect(state).toEqual({names: ['a', 'b', 'bb']});
+
+    expect(remove(state, 'x')).toBe(state);
+    expect(remove(state, 'a')).toEqual({names: ['b', 'bb']});
+    expect(removeStartingWith(state, 'b')).toEqual({names: ['a']});
+    expect(remove(null, 'a')).toBe(null);
+  });
+
+  test('redArrayUpsertBy_', () => {
+    const upsert = redArrayUpsertBy_<Test, 'products'>('products', 'id');
+    const apple = {id: 1, name: 'apple'};
+
+    let state = upsert(<Test>{products: []}, apple);
+    expect(state).toEqual({products: [apple]});
+    expect(upsert(state, apple)).toBe(state);
+
+    state = upsert(state, {id: 2, name: 'banana'});
+    state = upsert(state, {id: 1, name: 'cherry'});
+    expect(state).toEqual({
+      products: [
+        {id: 1, name: 'cherry'},
+        {id: 2, name: 'banana'},
+      ],
+    });
+  });
+
+  test('redToggle_ and redIncrement_', () => {
+    const toggle = redToggle_<Test, 'enabled'>('enabled');
+    const increment = redIncrement_<Test, 'count'>('count');
+
+    const state = <Test>{enabled: false, count: 1};
+    expect(toggle(state, undefined)).toEqual({enabled: true, count: 1});
+    expect(toggle(state, false)).toBe(state);
+    expect(toggle(state, true)).toEqual({enabled: true, count: 1});
+
+    expect(increment(state, undefined)).toEqual({enabled: false, count: 2});
+    expect(increment(state, -3)).toEqual({enabled: false, count: -2});
+    expect(increment(state, 0)).toBe(state);
+    expect(increment(<Test>{}, undefined)).toEqual({count: 1});
+  });
+
+  test('in toState$_', () => {
+    const set_tags = actor<{[key: string]: string}>('SetTags');
+    const add_name = actor<string>('AddName');
+    const toggle_enabled = actor<void>('ToggleEnabled');
+    const state$ = toState$_(<Test>{enabled: false, filter: {tags: {}}, names: []}, {
+      [set_tags.type]: redSetIn_(['filter', 'tags']),
+      [add_name.type]: redArrayPush_('names'),
+      [toggle_enabled.type]: redToggle_('enabled'),
+    });
+
+    const store = createStore(state$);
+    store.dispatch(set_tags.new({a: 'a'}));
+    store.dispatch(add_name.new('name'));
+    store.dispatch(toggle_enabled.new(null));
+    expect(store.getState()).toEqual({enabled: true, filter: {tags: {a: 'a'}}, names: ['name']});
+    store.destruct();
+  });
+});
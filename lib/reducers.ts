@@ -0,0 +1,109 @@
+import {setPropertyIfNotSame, ValueReducer} from './index';
+
+/** Item type of an array type. */
+export type ArrayItem<A> = A extends (infer I)[] ? I : never;
+
+const getIn = (state: any, path: PropertyKey[]) =>
+  path.reduce((acc, key) => (acc === null || acc === undefined ? undefined : acc[key]), state);
+
+const setIn = (state: any, path: PropertyKey[], value: any): any => {
+  if (!path.length) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  const nested = state === null || state === undefined ? undefined : state[key];
+  const changed = setIn(nested, rest, value);
+  return changed === nested && state ? state : Object.assign(Array.isArray(state) ? [] : {}, state, {[key]: changed});
+};
+
+/**
+ * Returns a reducer setting the `value` at the `path` in `state`, creating missing objects on the way.
+ * Keeps the identity if the value is identical.
+ * @example
+ * const reducers = {[set_filter_tags.type]: redSetIn_<StateViewProducts, 'filter', 'tags'>(['filter', 'tags'])};
+ */
+export function redSetIn_<T, K1 extends keyof T>(path: [K1]): ValueReducer<T, T[K1]>;
+export function redSetIn_<T, K1 extends keyof T, K2 extends keyof T[K1]>(path: [K1, K2]): ValueReducer<T, T[K1][K2]>;
+export function redSetIn_<T, K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2]>(
+  path: [K1, K2, K3],
+): ValueReducer<T, T[K1][K2][K3]>;
+export function redSetIn_<T, K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2], K4 extends keyof T[K1][K2][K3]>(
+  path: [K1, K2, K3, K4],
+): ValueReducer<T, T[K1][K2][K3][K4]>;
+export function redSetIn_<T>(path: PropertyKey[]): ValueReducer<T> {
+  return (state, value) => setIn(state, path, value);
+}
+
+/**
+ * Returns a reducer updating the value at the `path` in `state` with the `update` function, creating missing objects on the way.
+ * Keeps the identity if the `update` returns the identical value.
+ * @example
+ * const reducers = {
+ *   [set_filter_tag.type]: redUpdateIn_<StateViewProducts, 'filter', 'tags'>(['filter', 'tags'], (tags, [key, val]: [string, string]) => ({...tags, [key]: val})),
+ * };
+ */
+export function redUpdateIn_<T, K1 extends keyof T, A = any>(path: [K1], update: (current: T[K1], value: A) => T[K1]): ValueReducer<T, A>;
+export function redUpdateIn_<T, K1 extends keyof T, K2 extends keyof T[K1], A = any>(
+  path: [K1, K2],
+  update: (current: T[K1][K2], value: A) => T[K1][K2],
+): ValueReducer<T, A>;
+export function redUpdateIn_<T, K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2], A = any>(
+  path: [K1, K2, K3],
+  update: (current: T[K1][K2][K3], value: A) => T[K1][K2][K3],
+): ValueReducer<T, A>;
+export function redUpdateIn_<
+  T,
+  K1 extends keyof T,
+  K2 extends keyof T[K1],
+  K3 extends keyof T[K1][K2],
+  K4 extends keyof T[K1][K2][K3],
+  A = any
+>(path: [K1, K2, K3, K4], update: (current: T[K1][K2][K3][K4], value: A) => T[K1][K2][K3][K4]): ValueReducer<T, A>;
+export function redUpdateIn_<T>(path: PropertyKey[], update: (current: any, value: any) => any): ValueReducer<T> {
+  return (state, value) => setIn(state, path, update(getIn(state, path), value));
+}
+
+/** Returns a reducer pushing the `value` into the array `state[key]`. */
+export const redArrayPush_ = <T extends object, K extends keyof T>(key: K): ValueReducer<T, ArrayItem<T[K]>> => (state, value) =>
+  setPropertyIfNotSame(state || <T>{}, key, <any>[...((state && (state[key] as any)) || []), value]);
+
+/**
+ * Returns a reducer removing the items of the array `state[key]` matching the `value` by the `predicate` (default: identity).
+ * Keeps the identity if nothing was removed.
+ * @example
+ * const reducers = {[remove_product.type]: redArrayRemoveWhere_<StateViewProducts, 'products', string>('products', (item, name) => item === name)};
+ */
+export const redArrayRemoveWhere_ = <T extends object, K extends keyof T, A = ArrayItem<T[K]>>(
+  key: K,
+  predicate: (item: ArrayItem<T[K]>, value: A) => boolean = (item, value) => <any>item === value,
+): ValueReducer<T, A> => (state, value) => {
+  const items: ArrayItem<T[K]>[] = (state && (state[key] as any)) || [];
+  const kept = items.filter((item) => !predicate(item, value));
+  return kept.length === items.length ? state : setPropertyIfNotSame(state, key, <any>kept);
+};
+
+/**
+ * Returns a reducer replacing the item of the array `state[key]` with the same `id` as the `value` or pushing the `value` if not found.
+ * Keeps the identity if the found item is identical.
+ * @example
+ * const reducers = {[upsert_user.type]: redArrayUpsertBy_<StateUsers, 'users'>('users', 'id')};
+ */
+export const redArrayUpsertBy_ = <T extends object, K extends keyof T>(
+  key: K,
+  id: keyof ArrayItem<T[K]>,
+): ValueReducer<T, ArrayItem<T[K]>> => (state, value) => {
+  const items: ArrayItem<T[K]>[] = (state && (state[key] as any)) || [];
+  const index = items.findIndex((item) => item && value && item[id] === value[id]);
+  if (index < 0) {
+    return setPropertyIfNotSame(state || <T>{}, key, <any>[...items, value]);
+  }
+  return items[index] === value ? state : setPropertyIfNotSame(state, key, <any>items.map((item, ii) => (ii === index ? value : item)));
+};
+
+/** Returns a reducer toggling the boolean `state[key]` (or setting it to `value` if boolean). */
+export const redToggle_ = <T extends object, K extends keyof T>(key: K): ValueReducer<T, boolean | void> => (state, value) =>
+  setPropertyIfNotSame(state || <T>{}, key, <any>(typeof value === 'boolean' ? value : !(state && state[key])));
+
+/** Returns a reducer incrementing the number `state[key]` by `value` (default: `1`). */
+export const redIncrement_ = <T extends object, K extends keyof T>(key: K): ValueReducer<T, number | void> => (state, value) =>
+  setPropertyIfNotSame(state || <T>{}, key, <any>(+((state && state[key]) || 0) + (typeof value === 'number' ? value : 1)));
@@ -0,0 +1,71 @@
+import {BehaviorSubject} from 'rxjs';
+import {createSelector} from './index';
+
+describe('selector', () => {
+  interface Test {
+    products?: string[];
+    filter?: string;
+    other?: number;
+  }
+
+  const selectProducts = (st: Test) => st.products;
+  const selectFilter = (st: Test) => st.filter;
+
+  test('memoizes by input identity', () => {
+    const selectVisible = createSelector([selectProducts, selectFilter], (products, filter) =>
+      products.filter((product) => product.includes(filter)),
+    );
+
+    const products = ['apple', 'banana', 'cherry'];
+    const state = <Test>{products, filter: 'an', other: 0};
+    const visible = selectVisible(state);
+    expect(visible).toEqual(['banana']);
+    expect(selectVisible.recomputations()).toBe(1);
+
+    expect(selectVisible(state)).toBe(visible);
+    expect(selectVisible({...state, other: 1})).toBe(visible);
+    expect(selectVisible.recomputations()).toBe(1);
+
+    expect(selectVisible({...state, filter: 'e'})).toEqual(['apple', 'cherry']);
+    expect(selectVisible.recomputations()).toBe(2);
+
+    expect(selectVisible({...state, products: [...products]})).toEqual(['banana']);
+    expect(selectVisible.recomputations()).toBe(3);
+
+    selectVisible.resetRecomputations();
+    expect(selectVisible.recomputations()).toBe(0);
+  });
+
+  test('memoizes with cache size', () => {
+    const selectCount = createSelector([selectFilter], (filter) => ({count: filter.length}), {cacheSize: 2});
+
+    const resultA = selectCount({filter: 'a'});
+    const resultB = selectCount({filter: 'bb'});
+    expect(selectCount({filter: 'a'})).toBe(resultA);
+    expect(selectCount({filter: 'bb'})).toBe(resultB);
+    expect(selectCount.recomputations()).toBe(2);
+
+    selectCount({filter: 'ccc'});
+    expect(selectCount({filter: 'bb'})).toBe(resultB);
+    expect(selectCount({filter: 'a'})).not.toBe(resultA);
+    expect(selectCount.recomputations()).toBe(4);
+  });
+
+  test('works as operator', () => {
+    const selectAll = createSelector([selectProducts, selectFilter], (products, filter) => [...products, filter]);
+
+    const state$ = new BehaviorSubject<Test>({products: ['a'], filter: 'f', other: 0});
+    const results = [];
+    state$.pipe(selectAll.operator).subscribe((ii) => results.push(ii));
+
+    state$.next({...state$.value, other: 1});
+    state$.next({...state$.value, filter: 'g'});
+    state$.complete();
+
+    expect(results).toEqual([
+      ['a', 'f'],
+      ['a', 'g'],
+    ]);
+    expect(selectAll.recomputations()).toBe(2);
+  });
+});
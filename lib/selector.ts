@@ -0,0 +1,73 @@
+import {OperatorFunction} from 'rxjs';
+import {watch} from './index';
+
+/** Memoized selector, callable on a state (e.g. `getState()`) and usable as `watch` operator via `operator`. */
+export interface Selector<T, R> {
+  (state: T): R;
+  /** `watch(selector)` operator e.g. `state$.pipe(selectVisible.operator)`. */
+  operator: OperatorFunction<T, R>;
+  /** Count of projector calls i.e. recomputations, for testing. */
+  recomputations(): number;
+  resetRecomputations(): void;
+}
+
+/** Options for `createSelector`. */
+export interface SelectorOptions {
+  /** Count of memoized input combinations (default: `1`). */
+  cacheSize?: number;
+}
+
+/** Maps a tuple of input selectors to the tuple of their results. */
+export type SelectorResults<S> = {[K in keyof S]: S[K] extends (state: any) => infer R ? R : never};
+
+interface SelectorCacheEntry<R> {
+  inputs: any[];
+  result: R;
+}
+
+/**
+ * Creates a `Selector` memoizing the `projector` result by the identity of the `inputs` results.
+ * @example
+ * const selectVisibleProducts = createSelector(
+ *   [(st: UiState) => st.viewProducts.products, (st: UiState) => st.viewProducts.filter],
+ *   (products, filter) => products.filter((product) => product.includes(filter.nameFilter || '')),
+ * );
+ * ...
+ * const visible = selectVisibleProducts(rxState.getState());
+ * const visible$ = rxState.state$.pipe(selectVisibleProducts.operator);
+ */
+export const createSelector = <T, S extends ((state: T) => any)[] | [], R>(
+  inputs: S,
+  projector: (...args: Extract<SelectorResults<S>, any[]>) => R,
+  options?: SelectorOptions,
+): Selector<T, R> => {
+  const cacheSize = options && options.cacheSize > 0 ? options.cacheSize : 1;
+  let cache: SelectorCacheEntry<R>[] = [];
+  let lastState: T;
+  let lastResult: R;
+  let hasLast = false;
+  let recomputations = 0;
+
+  const selector = ((state: T) => {
+    if (hasLast && state === lastState) {
+      return lastResult;
+    }
+    const args = (inputs as ((state: T) => any)[]).map((input) => input(state));
+    let entry = cache.find((ii) => ii.inputs.every((input, index) => input === args[index]));
+    if (!entry) {
+      ++recomputations;
+      entry = {inputs: args, result: projector(...(args as Extract<SelectorResults<S>, any[]>))};
+    }
+    cache = [entry, ...cache.filter((ii) => ii !== entry)].slice(0, cacheSize);
+    lastState = state;
+    lastResult = entry.result;
+    hasLast = true;
+    return entry.result;
+  }) as Selector<T, R>;
+  selector.operator = watch(selector);
+  selector.recomputations = () => recomputations;
+  selector.resetRecomputations = () => {
+    recomputations = 0;
+  };
+  return selector;
+};
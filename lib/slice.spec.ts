@@ -0,0 +1,81 @@
+import {clearActorTypes, createStore, initReduceAssemble$_, redSetPropertyIfNotSame_, slice} from './index';
+
+describe('slice', () => {
+  afterEach(() => clearActorTypes());
+
+  interface ProductsFilter {
+    brands?: string[];
+    nameFilter?: string;
+    tags?: {[key: string]: string};
+  }
+  interface StateViewProducts {
+    filter?: ProductsFilter;
+    sortAsc?: boolean;
+  }
+
+  const DEFAULT_FILTER = <ProductsFilter>{brands: [], nameFilter: null, tags: {}};
+
+  test('creates actors', () => {
+    const filter = slice('FILTER', DEFAULT_FILTER);
+    expect(filter.init).toBe(DEFAULT_FILTER);
+    expect(filter.set.brands.type).toBe('SET_FILTER_brands');
+    expect(filter.set.nameFilter.new('name')).toEqual({type: 'SET_FILTER_nameFilter', value: 'name'});
+    expect(filter.merge.tags.type).toBe('MERGE_FILTER_tags');
+    expect(filter.reset.type).toBe('RESET_FILTER');
+    expect(Object.keys(filter.handlers).length).toBe(6);
+  });
+
+  test('merges only object values', () => {
+    const counter = slice('COUNTER', {count: 0, label: 'label', info: <{a?: number; b?: number}>{a: 1}, list: [1]});
+    expect(Object.keys(counter.merge)).toEqual(['info']);
+
+    const filter = slice('FILTER', DEFAULT_FILTER);
+    const store = createStore(filter.state$);
+    store.dispatch(filter.set.nameFilter.new('name'));
+    store.dispatch((filter.merge as any).nameFilter.new({a: 1}));
+    expect(store.getState().nameFilter).toBe('name');
+
+    store.destruct();
+  });
+
+  test('reduces state', () => {
+    const filter = slice('FILTER', DEFAULT_FILTER, {equality: {brands: 'equal'}});
+    const set_sortAsc = slice('PRODUCTS', <StateViewProducts>{sortAsc: true}).set.sortAsc;
+    const state$ = initReduceAssemble$_(
+      <StateViewProducts>{filter: null, sortAsc: true},
+      {[set_sortAsc.type]: redSetPropertyIfNotSame_('sortAsc')},
+      {filter: filter.state$},
+    );
+
+    const store = createStore(state$);
+    expect(store.getState()).toEqual({filter: DEFAULT_FILTER, sortAsc: true});
+
+    store.dispatch(filter.set.nameFilter.new('name'));
+    expect(store.getState()).toEqual({filter: {...DEFAULT_FILTER, nameFilter: 'name'}, sortAsc: true});
+
+    const brands = store.getState().filter.brands;
+    store.dispatch(filter.set.brands.new([]));
+    expect(store.getState().filter.brands).toBe(brands);
+    store.dispatch(filter.set.brands.new(['a']));
+    expect(store.getState().filter.brands).toEqual(['a']);
+
+    const tags = store.getState().filter.tags;
+    store.dispatch(filter.set.tags.new({}));
+    expect(store.getState().filter.tags).not.toBe(tags);
+
+    store.dispatch(filter.merge.tags.new({color: 'red'}));
+    store.dispatch(filter.merge.tags.new({size: 'xl'}));
+    expect(store.getState().filter.tags).toEqual({color: 'red', size: 'xl'});
+
+    store.dispatch(set_sortAsc.new(false));
+    expect(store.getState().sortAsc).toBe(false);
+
+    store.dispatch(filter.reset.new(null));
+    expect(store.getState()).toEqual({filter: DEFAULT_FILTER, sortAsc: false});
+
+    store.dispatch(filter.reset.new({brands: ['b'], nameFilter: null, tags: {}}));
+    expect(store.getState().filter.brands).toEqual(['b']);
+
+    store.destruct();
+  });
+});
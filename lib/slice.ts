@@ -0,0 +1,76 @@
+import {
+  ActionHandlerMap,
+  actor,
+  Actor,
+  redMergeProperty_,
+  redSetPropertyIfNotEqual_,
+  redSetPropertyIfNotSame_,
+  StreamToState,
+  toState$_,
+} from './index';
+
+/** Equality used by a `slice` setter: identity (`redSetPropertyIfNotSame_`) or content (`redSetPropertyIfNotEqual_`). */
+export type SliceEquality = 'same' | 'equal';
+
+/** Keys of `T` with (non-array) object values. */
+export type SliceObjectKeys<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends any[] ? never : NonNullable<T[K]> extends object ? K : never;
+}[keyof T];
+
+/** Options for `slice`. */
+export interface SliceOptions<T> {
+  /** Equality per key (default: `'same'`). */
+  equality?: Partial<Record<keyof T, SliceEquality>>;
+}
+
+/** Actors, handlers and state creator generated by `slice`. */
+export interface Slice<T> {
+  init: T;
+  /** Actors setting `state[key]`. */
+  set: {[K in keyof T]-?: Actor<T[K]>};
+  /** Actors merging into `state[key]`, only for keys with object values. */
+  merge: {[K in SliceObjectKeys<T>]-?: Actor<Partial<T[K]>>};
+  /** Actor resetting the state to `value` or `init` if the value is not set. */
+  reset: Actor<T>;
+  handlers: ActionHandlerMap<T>;
+  state$: StreamToState<T>;
+}
+
+const isMergeable = (value: any) => value === null || value === undefined || (typeof value === 'object' && !Array.isArray(value));
+
+/**
+ * Creates `set` actors for every key of `init`, `merge` actors for the keys with object (or `null`) values, a `reset` actor and a state creator using them, types are built with the `tag`.
+ * @example
+ * const filter = slice('UI_PRODUCTS_FILTER', DEFAULT_FILTER, {equality: {brands: 'equal', tags: 'equal'}});
+ * ...
+ * export const state_view_products$ = initReduceAssemble$_(<StateViewProducts>{filter: null, ...}, {...}, {filter: filter.state$});
+ * ...
+ * rxState.act(filter.set.nameFilter, 'name');
+ * rxState.act(filter.merge.tags, {color: 'red'});
+ * rxState.act(filter.reset, null);
+ */
+export const slice = <T extends object>(tag: string, init: T, options?: SliceOptions<T>): Slice<T> => {
+  const keys = Object.keys(init || {}) as (keyof T & string)[];
+  const equality: SliceOptions<T>['equality'] = (options && options.equality) || {};
+
+  const set = <Slice<T>['set']>{};
+  const merge = <Slice<T>['merge']>{};
+  const handlers = <ActionHandlerMap<T>>{};
+  keys.forEach((key) => {
+    set[key] = actor<T[typeof key]>('SET', tag, key);
+    handlers[set[key].type] =
+      equality[key] === 'equal' ? redSetPropertyIfNotEqual_<T, typeof key>(key) : redSetPropertyIfNotSame_<T, typeof key>(key);
+    if (isMergeable(init[key])) {
+      const mergeKey = key as SliceObjectKeys<T> & string;
+      const mergeProperty = redMergeProperty_<T, typeof mergeKey>(mergeKey);
+      merge[mergeKey] = actor<Partial<T[typeof mergeKey]>>('MERGE', tag, mergeKey);
+      handlers[merge[mergeKey].type] = (state: T, value: T[typeof mergeKey]) =>
+        isMergeable(state && state[mergeKey]) ? mergeProperty(state, value) : state;
+    }
+  });
+
+  const reset = actor<T>('RESET', tag);
+  handlers[reset.type] = (state: T, value: T) => value || init;
+
+  return {init, set, merge, reset, handlers, state$: toState$_(init, handlers)};
+};
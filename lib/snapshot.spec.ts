@@ -0,0 +1,61 @@
+import {deepMerge, deserializeSnapshot, serializeSnapshot, SnapshotSerializer} from './index';
+
+describe('snapshot', () => {
+  test('deepMerge', () => {
+    const target = {a: 1, b: {c: 'c', d: [1]}, e: {f: true}};
+    expect(deepMerge(target, undefined)).toBe(target);
+    expect(deepMerge(target, {})).toBe(target);
+    expect(deepMerge(target, {a: 1, b: {c: 'c'}})).toBe(target);
+
+    const merged = deepMerge(target, {b: {c: 'merged', d: [2, 3]}});
+    expect(merged).toEqual({a: 1, b: {c: 'merged', d: [2, 3]}, e: {f: true}});
+    expect(merged.e).toBe(target.e);
+    expect(target).toEqual({a: 1, b: {c: 'c', d: [1]}, e: {f: true}});
+
+    expect(deepMerge(target, {b: null})).toEqual({a: 1, b: null, e: {f: true}});
+    expect(deepMerge(null, {a: 1})).toEqual({a: 1});
+  });
+
+  test('deserializes snapshots escaped for HTML', () => {
+    const state = {html: '</script><script>alert(1)</script>', at: new Date(0)};
+    const json = serializeSnapshot(state).replace(/</g, '\\u003c');
+    expect(json).not.toContain('<');
+    expect(deserializeSnapshot(json)).toEqual(state);
+  });
+
+  test('serializes non-JSON values', () => {
+    const state = {
+      at: new Date(1000),
+      ids: new Set([1, 2]),
+      byDate: new Map([['today', {at: new Date(2000), tags: ['a']}]]),
+      list: [new Date(3000), null, 'text'],
+      nothing: null,
+    };
+    const snapshot = serializeSnapshot(state);
+    expect(typeof snapshot).toBe('string');
+
+    const restored = deserializeSnapshot<typeof state>(snapshot);
+    expect(restored).toEqual(state);
+    expect(restored.at).toBeInstanceOf(Date);
+    expect(restored.byDate.get('today').at).toBeInstanceOf(Date);
+  });
+
+  test('uses custom serializers', () => {
+    class Money {
+      constructor(public readonly cents: number) {}
+    }
+    const moneySerializer: SnapshotSerializer<Money> = {
+      tag: 'Money',
+      test: (value) => value instanceof Money,
+      serialize: (value) => value.cents,
+      deserialize: (json) => new Money(json),
+    };
+
+    const snapshot = serializeSnapshot({price: new Money(150)}, [moneySerializer]);
+    expect(JSON.parse(snapshot)).toEqual({price: {'@@DD_RX_STATE_SNAPSHOT': 'Money', value: 150}});
+    expect(
+      deserializeSnapshot<any>(snapshot, [moneySerializer]).price,
+    ).toEqual(new Money(150));
+    expect(() => deserializeSnapshot(snapshot)).toThrow('Snapshot serializer missing: Money');
+  });
+});
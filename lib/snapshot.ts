@@ -0,0 +1,100 @@
+/** Recursively optional version of `T` e.g. for preloaded states. */
+export type DeepPartial<T> = T extends object ? {[K in keyof T]?: DeepPartial<T[K]>} : T;
+
+/** Converts values not supported by JSON (e.g. `Date`) to JSON values and back. */
+export interface SnapshotSerializer<V = any> {
+  /** Unique tag written into the snapshot for finding the serializer on deserialization. */
+  tag: string;
+  test(value: any): boolean;
+  serialize(value: V): any;
+  deserialize(json: any): V;
+}
+
+const SNAPSHOT_TAG = '@@DD_RX_STATE_SNAPSHOT';
+
+const isPlainObject = (value: any) =>
+  !!value && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/** Serializes `Date` values. */
+export const dateSerializer: SnapshotSerializer<Date> = {
+  tag: 'Date',
+  test: (value) => value instanceof Date,
+  serialize: (value) => value.toISOString(),
+  deserialize: (json) => new Date(json),
+};
+
+/** Serializes `Map` values (keys and values are serialized too). */
+export const mapSerializer: SnapshotSerializer<Map<any, any>> = {
+  tag: 'Map',
+  test: (value) => value instanceof Map,
+  serialize: (value) => Array.from(value.entries()),
+  deserialize: (json) => new Map(json),
+};
+
+/** Serializes `Set` values (values are serialized too). */
+export const setSerializer: SnapshotSerializer<Set<any>> = {
+  tag: 'Set',
+  test: (value) => value instanceof Set,
+  serialize: (value) => Array.from(value.values()),
+  deserialize: (json) => new Set(json),
+};
+
+/** Serializers used by default in `serializeSnapshot` and `deserializeSnapshot`. */
+export const defaultSerializers: SnapshotSerializer[] = [dateSerializer, mapSerializer, setSerializer];
+
+const encode = (value: any, serializers: SnapshotSerializer[]): any => {
+  const serializer = serializers.find((ser) => ser.test(value));
+  if (serializer) {
+    return {[SNAPSHOT_TAG]: serializer.tag, value: encode(serializer.serialize(value), serializers)};
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(item, serializers));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce((acc, [key, item]) => Object.assign(acc, {[key]: encode(item, serializers)}), {});
+  }
+  return value;
+};
+
+/**
+ * Helper: serializes the `state` to a JSON string converting non-JSON values with the `serializers` (default: `defaultSerializers`).
+ * @example
+ * const json = serializeSnapshot(store.getState()).replace(/</g, '\\u003c'); // escapes `</script>` for embedding in HTML
+ * const html = `<script id="state" type="application/json">${json}</script>`;
+ * ...
+ * const state = deserializeSnapshot(document.getElementById('state').textContent);
+ */
+export const serializeSnapshot = <T>(state: T, serializers: SnapshotSerializer[] = defaultSerializers) =>
+  JSON.stringify(encode(state, serializers));
+
+/** Helper: deserializes a `serializeSnapshot` JSON string with the `serializers` (default: `defaultSerializers`). */
+export const deserializeSnapshot = <T>(snapshot: string, serializers: SnapshotSerializer[] = defaultSerializers): T =>
+  JSON.parse(snapshot, (key, value) => {
+    if (!value || typeof value !== 'object' || !(SNAPSHOT_TAG in value)) {
+      return value;
+    }
+    const serializer = serializers.find((ser) => ser.tag === value[SNAPSHOT_TAG]);
+    if (!serializer) {
+      throw new Error(`Snapshot serializer missing: ${value[SNAPSHOT_TAG]}`);
+    }
+    return serializer.deserialize(value.value);
+  });
+
+/**
+ * Helper: merges the plain objects of `source` deeply into `target`, other values (incl. arrays) of `source` replace the ones in `target`.
+ * Keeps the identity of `target` (and nested objects) if nothing changed.
+ * @example
+ * deepMerge({filter: {name: null, tags: []}, sortAsc: true}, {filter: {name: 'apple'}}); // {filter: {name: 'apple', tags: []}, sortAsc: true}
+ */
+export const deepMerge = <T>(target: T, source: DeepPartial<T>): T => {
+  if (source === undefined) {
+    return target;
+  }
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source as T;
+  }
+  return Object.keys(source).reduce((acc, key) => {
+    const merged = deepMerge(target[key], source[key]);
+    return merged === acc[key] && key in acc ? acc : {...acc, [key]: merged};
+  }, target);
+};
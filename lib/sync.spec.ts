@@ -0,0 +1,212 @@
+import {
+  actor,
+  clearActorTypes,
+  createBroadcastChannelTransport,
+  createMemoryChannel,
+  createPostMessageTransport,
+  createStore,
+  Middleware,
+  redSetPropertyIfNotSame_,
+  replace_state,
+  SyncMessage,
+  syncStore,
+  toState$_,
+} from './index';
+
+describe('sync', () => {
+  afterEach(() => clearActorTypes());
+
+  interface Test {
+    a?: number;
+    b?: number;
+  }
+
+  const createState = () => {
+    const set_a = actor<number>('SetA');
+    const set_b = actor<number>('SetB');
+    const state$ = toState$_(<Test>{a: 0, b: 0}, {
+      [set_a.type]: redSetPropertyIfNotSame_('a'),
+      [set_b.type]: redSetPropertyIfNotSame_('b'),
+    });
+    return {set_a, set_b, state$};
+  };
+
+  test('mirrors actions between peers', () => {
+    const {set_a, state$} = createState();
+    const channel = createMemoryChannel();
+    const storeA = createStore(state$);
+    const storeB = createStore(state$);
+    const syncA = syncStore(storeA, channel.connect(), {handshake: false});
+    const syncB = syncStore(storeB, channel.connect(), {handshake: false});
+
+    const actionsA = [];
+    const sub = storeA.action$.subscribe((action) => actionsA.push(action));
+    storeA.dispatch(set_a.new(1));
+    expect(storeB.getState()).toEqual({a: 1, b: 0});
+    storeB.dispatch(set_a.new(2));
+    expect(storeA.getState()).toEqual({a: 2, b: 0});
+    expect(actionsA).toEqual([set_a.new(1), expect.objectContaining(set_a.new(2))]);
+
+    syncB.unsubscribe();
+    storeA.dispatch(set_a.new(3));
+    expect(storeB.getState()).toEqual({a: 2, b: 0});
+
+    sub.unsubscribe();
+    syncA.unsubscribe();
+    storeA.destruct();
+    storeB.destruct();
+  });
+
+  test('mirrors actions dispatched by subscribers once', () => {
+    const {set_a, set_b, state$} = createState();
+    const channel = createMemoryChannel();
+    const storeA = createStore(state$);
+    const storeB = createStore(state$);
+    const syncA = syncStore(storeA, channel.connect(), {handshake: false});
+    const syncB = syncStore(storeB, channel.connect(), {handshake: false});
+
+    const actionsA = [];
+    const sub = storeA.action$.subscribe((action) => actionsA.push(action));
+    const subB = storeB.state$.subscribe((state) => (state.a === 1 && state.b === 0 ? storeB.dispatch(set_b.new(1)) : null));
+    storeA.dispatch(set_a.new(1));
+    expect(actionsA).toEqual([set_a.new(1), expect.objectContaining(set_b.new(1))]);
+    expect(storeA.getState()).toEqual({a: 1, b: 1});
+
+    [sub, subB, syncA, syncB].forEach((subscription) => subscription.unsubscribe());
+    storeA.destruct();
+    storeB.destruct();
+  });
+
+  test('filters allowed types', () => {
+    const {set_a, set_b, state$} = createState();
+    const channel = createMemoryChannel();
+    const storeA = createStore(state$);
+    const storeB = createStore(state$);
+    const syncA = syncStore(storeA, channel.connect(), {handshake: false, allowTypes: [set_a.type]});
+    const syncB = syncStore(storeB, channel.connect(), {handshake: false});
+
+    storeA.dispatch(set_a.new(1));
+    storeA.dispatch(set_b.new(1));
+    storeA.dispatch(replace_state.new({a: 5, b: 5}));
+    expect(storeB.getState()).toEqual({a: 1, b: 0});
+    storeB.dispatch(set_b.new(2));
+    expect(storeA.getState()).toEqual({a: 5, b: 5});
+
+    syncA.unsubscribe();
+    syncB.unsubscribe();
+    storeA.destruct();
+    storeB.destruct();
+  });
+
+  test('hands the state to late joiners', () => {
+    const {set_a, state$} = createState();
+    const channel = createMemoryChannel();
+    const storeA = createStore(state$);
+    const syncA = syncStore(storeA, channel.connect(), {peerId: 'A'});
+    storeA.dispatch(set_a.new(1));
+
+    const storeB = createStore(state$);
+    const syncB = syncStore(storeB, channel.connect(), {peerId: 'B'});
+    expect(storeB.getState()).toEqual({a: 1, b: 0});
+
+    const storeC = createStore(state$);
+    const syncC = syncStore(storeC, channel.connect(), {peerId: 'C'});
+    expect(storeC.getState()).toEqual({a: 1, b: 0});
+    expect(storeA.getState()).toEqual({a: 1, b: 0});
+
+    storeC.dispatch(set_a.new(2));
+    expect([storeA.getState().a, storeB.getState().a]).toEqual([2, 2]);
+
+    [syncA, syncB, syncC].forEach((sync) => sync.unsubscribe());
+    [storeA, storeB, storeC].forEach((store) => store.destruct());
+  });
+
+  test('uses BroadcastChannel', () => {
+    const listeners = [];
+    const fake = {
+      posted: [],
+      closed: false,
+      postMessage: (message) => fake.posted.push(message),
+      addEventListener: (type, listener) => listeners.push(listener),
+      removeEventListener: (type, listener) => listeners.splice(listeners.indexOf(listener), 1),
+      close: () => (fake.closed = true),
+    };
+    const transport = createBroadcastChannelTransport(<BroadcastChannel>(<any>fake));
+    const received: SyncMessage[] = [];
+    const unsubscribe = transport.subscribe((message) => received.push(message));
+
+    transport.send({kind: 'hello', source: 'A'});
+    expect(fake.posted).toEqual([{kind: 'hello', source: 'A'}]);
+    listeners.forEach((listener) => listener({data: {kind: 'hello', source: 'B'}}));
+    expect(received).toEqual([{kind: 'hello', source: 'B'}]);
+
+    unsubscribe();
+    expect(listeners.length).toBe(0);
+    transport.close();
+    expect(fake.closed).toBe(true);
+  });
+
+  test('uses postMessage', () => {
+    const listeners = [];
+    const posted = [];
+    const source = {
+      addEventListener: (type, listener) => listeners.push(listener),
+      removeEventListener: (type, listener) => listeners.splice(listeners.indexOf(listener), 1),
+    };
+    const transport = createPostMessageTransport(
+      {postMessage: (message, origin) => posted.push([message, origin])},
+      {source, origin: 'https://app.test'},
+    );
+    const received: SyncMessage[] = [];
+    const unsubscribe = transport.subscribe((message) => received.push(message));
+
+    transport.send({kind: 'hello', source: 'A'});
+    expect(posted.length).toBe(1);
+    expect(posted[0][1]).toBe('https://app.test');
+
+    listeners.forEach((listener) => listener({data: posted[0][0], origin: 'https://app.test'}));
+    listeners.forEach((listener) => listener({data: posted[0][0], origin: 'https://other.test'}));
+    listeners.forEach((listener) => listener({data: {kind: 'hello'}, origin: 'https://app.test'}));
+    expect(received).toEqual([{kind: 'hello', source: 'A'}]);
+
+    unsubscribe();
+    expect(listeners.length).toBe(0);
+
+    expect(() => createPostMessageTransport({postMessage: () => null}, {source, origin: '*'})).toThrow();
+    expect(() => createPostMessageTransport({postMessage: () => null}, {source, origin: null})).toThrow();
+  });
+
+  test('does not mirror received actions transformed or swallowed by middlewares', () => {
+    const {set_a, set_b, state$} = createState();
+    const channel = createMemoryChannel();
+    const double: Middleware = () => (next) => (action) =>
+      action.type === set_a.type ? next({...action, value: action.value * 2}) : next(action);
+    let swallowed = false;
+    const swallowFirst: Middleware = () => (next) => (action) =>
+      action.type === set_b.type && !swallowed ? (swallowed = true) : next(action);
+    const storeA = createStore(state$);
+    const storeB = createStore(state$, {middlewares: [swallowFirst, double]});
+    const syncA = syncStore(storeA, channel.connect(), {handshake: false});
+    const syncB = syncStore(storeB, channel.connect(), {handshake: false});
+
+    const sent: SyncMessage[] = [];
+    const spy = channel.connect();
+    spy.subscribe((message) => sent.push(message));
+
+    storeA.dispatch(set_a.new(1));
+    expect(storeB.getState().a).toBe(2);
+    expect(storeA.getState().a).toBe(1);
+    expect(sent.length).toBe(1);
+
+    storeA.dispatch(set_b.new(1));
+    expect(storeB.getState().b).toBe(0);
+    storeA.dispatch(replace_state.new({a: 1, b: 0}));
+    storeB.dispatch(set_b.new(1));
+    expect(storeB.getState().b).toBe(1);
+    expect(storeA.getState().b).toBe(1);
+    expect(sent.length).toBe(3);
+
+    [syncA, syncB].forEach((sync) => sync.unsubscribe());
+    [storeA, storeB].forEach((store) => store.destruct());
+  });
+});
@@ -0,0 +1,175 @@
+import {Subscription} from 'rxjs';
+import {Action, replace_state, Store} from './index';
+
+/** Message exchanged between synchronized stores. */
+export type SyncMessage =
+  | {kind: 'action'; source: string; action: Action<any>}
+  | {kind: 'hello'; source: string}
+  | {kind: 'state'; source: string; target: string; state: any};
+
+/** Channel between synchronized stores, `send` must not deliver the message back to the sender's listeners. */
+export interface SyncTransport {
+  send(message: SyncMessage): void;
+  /** Registers the `listener` for messages of the peers, returns the unregistration. */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  close?(): void;
+}
+
+/** Options for `syncStore`. */
+export interface SyncOptions {
+  /** Synchronized action types (default: all except `replace_state`). */
+  allowTypes?: string[];
+  /** Requests the current state from the peers on connect and replaces the own state with the first answer (default: `true`). */
+  handshake?: boolean;
+  /** Unique id of this peer (default: random). */
+  peerId?: string;
+}
+
+/** In-memory channel connecting `SyncTransport`s e.g. for testing. */
+export interface MemoryChannel {
+  connect(): SyncTransport;
+}
+
+/** Target of `window.postMessage` calls e.g. `iframe.contentWindow` or `window.parent`. */
+export interface PostMessageTarget {
+  postMessage(message: any, targetOrigin: string): void;
+}
+
+/** Source of `message` events e.g. `window`. */
+export interface PostMessageSource {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+/** Options for `createPostMessageTransport`. */
+export interface PostMessageOptions {
+  /** Receiver of the messages (default: `window`). */
+  source?: PostMessageSource;
+  /** Origin the messages are sent to and accepted from e.g. `'https://app.example.com'` (`'*'` is not allowed). */
+  origin: string;
+}
+
+const POST_MESSAGE_KEY = '@@DD_RX_STATE_SYNC';
+
+/** Key of the sending peer id in the `meta` of received actions. */
+const SOURCE_META = '@@DD_RX_STATE_SYNC_SOURCE';
+
+/** Creates a `MemoryChannel` delivering messages synchronously to all other connected transports. */
+export const createMemoryChannel = (): MemoryChannel => {
+  const listeners: ((message: SyncMessage) => void)[][] = [];
+  return {
+    connect: () => {
+      const own: ((message: SyncMessage) => void)[] = [];
+      listeners.push(own);
+      return {
+        send: (message) =>
+          listeners
+            .filter((peer) => peer !== own)
+            .reduce((acc, peer) => [...acc, ...peer], [])
+            .forEach((listener) => listener(message)),
+        subscribe: (listener) => {
+          own.push(listener);
+          return () => own.includes(listener) && own.splice(own.indexOf(listener), 1);
+        },
+        close: () => listeners.includes(own) && listeners.splice(listeners.indexOf(own), 1),
+      };
+    },
+  };
+};
+
+/** Creates a `SyncTransport` over a `BroadcastChannel` (e.g. between tabs), it is closed on `close()`. */
+export const createBroadcastChannelTransport = (channel: string | BroadcastChannel): SyncTransport => {
+  const broadcast = typeof channel === 'string' ? new BroadcastChannel(channel) : channel;
+  return {
+    send: (message) => broadcast.postMessage(message),
+    subscribe: (listener) => {
+      const onMessage = (event: MessageEvent) => listener(event.data);
+      broadcast.addEventListener('message', onMessage);
+      return () => broadcast.removeEventListener('message', onMessage);
+    },
+    close: () => broadcast.close(),
+  };
+};
+
+/**
+ * Creates a `SyncTransport` over `postMessage` (e.g. between a window and an iframe) with the explicit `options.origin`,
+ * messages of other origins are ignored.
+ */
+export const createPostMessageTransport = (target: PostMessageTarget, options: PostMessageOptions): SyncTransport => {
+  const origin = options && options.origin;
+  if (!origin || origin === '*') {
+    throw new Error('createPostMessageTransport: explicit origin required');
+  }
+  return {
+    send: (message) => target.postMessage({[POST_MESSAGE_KEY]: message}, origin),
+    subscribe: (listener) => {
+      const source = options.source || window;
+      const onMessage = (event: MessageEvent) => {
+        if (event.origin === origin && event.data && event.data[POST_MESSAGE_KEY]) {
+          listener(event.data[POST_MESSAGE_KEY]);
+        }
+      };
+      source.addEventListener('message', onMessage);
+      return () => source.removeEventListener('message', onMessage);
+    },
+  };
+};
+
+/**
+ * Mirrors the dispatched actions of the `store` to the peer stores connected via the `transport` and dispatches theirs.
+ * Received actions are tagged with the sending peer in their `meta` and not sent again (middlewares transforming them should keep it),
+ * late joiners receive the current state of the first answering peer.
+ * @example
+ * const store = createStore(state_ui$);
+ * const sync = syncStore(store, createBroadcastChannelTransport('ui'), {allowTypes: [set_locale.type]});
+ * ...
+ * sync.unsubscribe();
+ */
+export const syncStore = <T>(store: Store<T>, transport: SyncTransport, options?: SyncOptions) => {
+  const peerId = (options && options.peerId) || `${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+  const handshake = !options || options.handshake !== false;
+  const allowed = (type: string) => type !== replace_state.type && (!options || !options.allowTypes || options.allowTypes.includes(type));
+
+  const received = (action: Action<any>) => !!action.meta && !!action.meta[SOURCE_META];
+
+  let synced = !handshake;
+  const subscription = new Subscription();
+  const unsubscribeMessages = transport.subscribe((message) => {
+    if (!message || message.source === peerId) {
+      return;
+    }
+    switch (message.kind) {
+      case 'action':
+        if (message.action && allowed(message.action.type)) {
+          store.dispatch({...message.action, meta: {...(message.action.meta || {}), [SOURCE_META]: message.source}});
+        }
+        break;
+      case 'hello':
+        transport.send({kind: 'state', source: peerId, target: message.source, state: store.getState()});
+        break;
+      case 'state':
+        if (!synced && message.target === peerId) {
+          synced = true;
+          store.dispatch(replace_state.new(message.state));
+        }
+        break;
+    }
+  });
+
+  subscription.add(
+    store.action$.subscribe((action) =>
+      received(action) || !allowed(action.type) ? null : transport.send({kind: 'action', source: peerId, action}),
+    ),
+  );
+  subscription.add(() => {
+    unsubscribeMessages();
+    if (transport.close) {
+      transport.close();
+    }
+  });
+
+  if (handshake) {
+    transport.send({kind: 'hello', source: peerId});
+  }
+  return subscription;
+};
@@ -0,0 +1,104 @@
+import {filter, map} from 'rxjs/operators';
+import {actor, clearActorTypes, createStore, Effect, redSetPropertyIfNotSame_, RxState, toState$_} from './index';
+import {createMockStore, expectActions, expectStateMarbles, expectStoreMarbles, testReducer} from './testing';
+
+describe('testing', () => {
+  afterEach(() => clearActorTypes());
+
+  interface Test {
+    a?: number;
+    b?: string;
+  }
+
+  const createActors = () => {
+    const set_a = actor<number>('SetA');
+    const set_b = actor<string>('SetB');
+    const handlers = {[set_a.type]: redSetPropertyIfNotSame_<Test, 'a'>('a'), [set_b.type]: redSetPropertyIfNotSame_<Test, 'b'>('b')};
+    return {set_a, set_b, handlers};
+  };
+
+  test('createMockStore', () => {
+    const {set_a, set_b} = createActors();
+    const store = createMockStore<Test>({a: 0, b: ''});
+    const rxState = new RxState(store);
+    const states = <Test[]>[];
+    rxState.state$.subscribe((_) => states.push(_));
+
+    rxState.act(set_a, 1);
+    expect(store.getState()).toEqual({a: 0, b: ''});
+    store.setState({a: 2, b: 'b'});
+    expect(rxState.getState()).toEqual({a: 2, b: 'b'});
+    expect(states).toEqual([
+      {a: 0, b: ''},
+      {a: 2, b: 'b'},
+    ]);
+
+    const effect: Effect<Test> = (action$) =>
+      action$.pipe(
+        filter((action) => action.type === set_a.type),
+        map((action) => set_b.new(`${action.value}`)),
+      );
+    rxState.effect(effect);
+    rxState.act(set_a, 3);
+    expect(store.getActions()).toEqual([set_a.new(1), set_a.new(3), set_b.new('3')]);
+
+    store.addSlice('c', toState$_('c', {}));
+    expect(store.getState()).toEqual({a: 2, b: 'b', c: 'c'});
+    store.removeSlice('c');
+    expect(store.getState()).toEqual({a: 2, b: 'b'});
+
+    store.clearActions();
+    expect(store.getActions()).toEqual([]);
+    rxState.destroy();
+  });
+
+  test('expectActions', () => {
+    const {set_a, set_b} = createActors();
+    const store = createMockStore<Test>({});
+    store.dispatch(set_a.new(1));
+    store.dispatch(set_b.new('b'));
+
+    expect(() => expectActions(store, [set_a, set_b])).not.toThrow();
+    expect(() => expectActions(store, [set_a.new(1), set_b.new('b')])).not.toThrow();
+    expect(() => expectActions(store, [set_a.new(2), set_b])).toThrow('Expected actions: [SetA(2), SetB] but got: [SetA(1), SetB("b")]');
+    expect(() => expectActions(store, [set_a])).toThrow();
+    store.destruct();
+  });
+
+  test('testReducer', () => {
+    const {set_a, set_b, handlers} = createActors();
+    testReducer(handlers)
+      .given({a: 0, b: ''})
+      .when(set_a, 1)
+      .then({a: 1, b: ''})
+      .when(set_b, 'b')
+      .then((state) => expect(state).toEqual({a: 1, b: 'b'}));
+
+    expect(() => testReducer(handlers).given({a: 0}).when(set_a, 1).then({a: 2})).toThrow(
+      'Reducer state on action SetA: {"a":1} expected: {"a":2}',
+    );
+  });
+
+  test('expectStateMarbles', () => {
+    const {set_a, handlers} = createActors();
+    const actionValues = {x: set_a.new(1), y: set_a.new(1), z: set_a.new(2)};
+    const stateValues: Record<string, Test> = {i: {a: 0}, x: {a: 1}, z: {a: 2}};
+    expectStateMarbles(toState$_(<Test>{a: 0}, handlers), {actions: '-x-y-z', actionValues, states: 'ix---z', stateValues});
+    expect(() =>
+      expectStateMarbles(toState$_(<Test>{a: 0}, handlers), {actions: '-x-y-z', actionValues, states: 'ix-x-z', stateValues}),
+    ).toThrow();
+  });
+
+  test('expectStoreMarbles', () => {
+    const {set_a, handlers} = createActors();
+    const store = createStore(toState$_(<Test>{a: 0}, handlers));
+    store.dispatch(set_a.new(1));
+    expectStoreMarbles(store, {
+      actions: 'x---y',
+      actionValues: {x: set_a.new(2), y: set_a.new(3)},
+      states: '(ix)y',
+      stateValues: {i: {a: 1}, x: {a: 2}, y: {a: 3}},
+    });
+    store.destruct();
+  });
+});
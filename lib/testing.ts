@@ -0,0 +1,222 @@
+import {BehaviorSubject, EMPTY, NEVER, Subject} from 'rxjs';
+import {catchError, distinctUntilChanged, take, takeUntil} from 'rxjs/operators';
+import {TestScheduler} from 'rxjs/testing';
+import {
+  Action,
+  ActionHandlerMap,
+  ActionReducer,
+  Actor,
+  deepEqual,
+  deserializeSnapshot,
+  Effect,
+  EffectOptions,
+  reducers_,
+  serializeSnapshot,
+  Store,
+  StoreError,
+  StreamToState,
+} from './index';
+
+/** `Store` not reducing the dispatched actions but recording them, its state is set directly. */
+export interface MockStore<T> extends Store<T> {
+  setState(state: T): void;
+  /** Returns the actions dispatched so far (incl. the ones of effects). */
+  getActions(): Action<any>[];
+  clearActions(): void;
+}
+
+class MockStoreImpl<T> implements MockStore<T> {
+  constructor(private readonly stateIn$: BehaviorSubject<T>) {}
+
+  private readonly done$ = new Subject();
+  private readonly actionIn$ = new Subject<Action<any>>();
+  private actions: Action<any>[] = [];
+
+  public readonly state$ = this.stateIn$.pipe(distinctUntilChanged());
+  public readonly action$ = this.actionIn$.asObservable();
+  public readonly error$ = new Subject<StoreError>().asObservable();
+
+  setState(state: T) {
+    this.stateIn$.next(state);
+  }
+
+  getState() {
+    return this.stateIn$.value;
+  }
+
+  getActions() {
+    return [...this.actions];
+  }
+
+  clearActions() {
+    this.actions = [];
+  }
+
+  dispatch(action: Action<any>) {
+    this.actions.push(action);
+    this.actionIn$.next(action);
+  }
+
+  dispatchBatch(actions: Action<any>[]) {
+    (actions || []).forEach((action) => this.dispatch(action));
+  }
+
+  transaction(work: () => void) {
+    work();
+  }
+
+  addSlice<S>(key: string, createState: StreamToState<S>) {
+    createState(NEVER)
+      .pipe(take(1))
+      .subscribe((state) => this.setState({...this.getState(), [key]: state}));
+  }
+
+  removeSlice(key: string) {
+    const {[key]: removed, ...state} = <any>this.getState();
+    this.setState(state);
+  }
+
+  addEffect(effect: Effect<T>, options?: EffectOptions) {
+    const onError = (options && options.onError) || ((error: any) => console.error(error));
+    return effect(this.action$, this.state$)
+      .pipe(
+        catchError((error) => {
+          onError(error);
+          return EMPTY;
+        }),
+        takeUntil(this.done$),
+      )
+      .subscribe((action) => this.dispatch(action));
+  }
+
+  snapshot() {
+    return serializeSnapshot(this.getState());
+  }
+
+  restore(snapshot: string) {
+    this.setState(deserializeSnapshot<T>(snapshot));
+  }
+
+  destruct() {
+    this.done$.next();
+    this.done$.complete();
+    this.actionIn$.complete();
+    this.stateIn$.complete();
+  }
+}
+
+/**
+ * Creates a `MockStore` for testing e.g. components or effects.
+ * @example
+ * const store = createMockStore<StateViewProducts>({filter: DEFAULT_FILTER, sortAsc: true});
+ * const rxState = new RxState(store);
+ * ...
+ * store.setState({...store.getState(), sortAsc: false});
+ * expectActions(store, [set_sortAsc]);
+ */
+export const createMockStore = <T>(initialState: T): MockStore<T> => new MockStoreImpl(new BehaviorSubject(initialState));
+
+const describeAction = (action: Action<any> | Actor<any>) =>
+  'new' in action ? action.type : `${action.type}(${JSON.stringify(action.value)})`;
+
+/**
+ * Throws if the actions dispatched in the `store` don't match the `expected` ones: an `Actor` matches by type, an `Action` by content.
+ * @example
+ * expectActions(store, [load_products.started, set_products.new([])]);
+ */
+export const expectActions = (store: MockStore<any>, expected: (Action<any> | Actor<any>)[]) => {
+  const actual = store.getActions();
+  const matches =
+    actual.length === expected.length &&
+    expected.every((item, index) =>
+      'new' in item ? actual[index].type === item.type : actual[index].type === item.type && deepEqual(actual[index].value, item.value),
+    );
+  if (!matches) {
+    throw new Error(`Expected actions: [${expected.map(describeAction).join(', ')}] but got: [${actual.map(describeAction).join(', ')}]`);
+  }
+};
+
+/** Step of a `testReducer` test with a given state. */
+export interface ReducerTestGiven<T> {
+  /** Reduces the given state with the action of the `actor` with the `value`. */
+  when<V>(actor: Actor<V>, value: V): ReducerTestWhen<T>;
+}
+
+/** Step of a `testReducer` test with a reduced state. */
+export interface ReducerTestWhen<T> {
+  /** Throws if the reduced state is not deeply equal to `expected` (or if `expected` throws), continues with the reduced state. */
+  then(expected: T | ((state: T) => void)): ReducerTestGiven<T>;
+}
+
+/**
+ * Returns a given-when-then test of the `reduce` handlers or reducer.
+ * @example
+ * testReducer(handlers)
+ *   .given({filter: DEFAULT_FILTER, sortAsc: true})
+ *   .when(set_sortAsc, false)
+ *   .then({filter: DEFAULT_FILTER, sortAsc: false})
+ *   .when(set_sortAsc, false)
+ *   .then((state) => expect(state.sortAsc).toBe(false));
+ */
+export const testReducer = <T>(reduce: ActionReducer<T> | ActionHandlerMap<T>) => {
+  const reducer = typeof reduce === 'function' ? reduce : reducers_(reduce);
+  const given = (state: T): ReducerTestGiven<T> => ({
+    when: (actor, value) => {
+      const reduced = reducer(state, actor.new(value));
+      return {
+        then: (expected) => {
+          if (typeof expected === 'function') {
+            (expected as (state: T) => void)(reduced);
+          } else if (!deepEqual(reduced, expected)) {
+            throw new Error(`Reducer state on action ${actor.type}: ${JSON.stringify(reduced)} expected: ${JSON.stringify(expected)}`);
+          }
+          return given(reduced);
+        },
+      };
+    },
+  });
+  return {given};
+};
+
+/** Marbles of a `expectStateMarbles` test, see rxjs marble testing. */
+export interface StateMarbles<T> {
+  /** Marbles of the dispatched actions e.g. `'-a-b'`. */
+  actions: string;
+  actionValues?: Record<string, Action<any>>;
+  /** Expected marbles of the emitted states e.g. `'ia-b'`. */
+  states: string;
+  stateValues?: Record<string, T>;
+}
+
+/** Creates an rxjs `TestScheduler` comparing the emissions with `deepEqual`. */
+export const createStateTestScheduler = () =>
+  new TestScheduler((actual, expected) => {
+    if (!deepEqual(actual, expected)) {
+      throw new Error(`Marbles: ${JSON.stringify(actual)} expected: ${JSON.stringify(expected)}`);
+    }
+  });
+
+/**
+ * Throws if the state created by `createState` doesn't emit the `marbles.states` for the `marbles.actions` (runs in virtual time).
+ * @example
+ * expectStateMarbles(state_view_products$_, {
+ *   actions: '-a-b',
+ *   actionValues: {a: set_sortAsc.new(false), b: set_sortAsc.new(true)},
+ *   states: 'ia-b',
+ *   stateValues: {i: {sortAsc: true}, a: {sortAsc: false}, b: {sortAsc: true}},
+ * });
+ */
+export const expectStateMarbles = <T>(createState: StreamToState<T>, marbles: StateMarbles<T>) =>
+  createStateTestScheduler().run(({cold, expectObservable}) =>
+    expectObservable(createState(cold(marbles.actions, marbles.actionValues))).toBe(marbles.states, marbles.stateValues),
+  );
+
+/**
+ * Throws if `store.state$` doesn't emit the `marbles.states` for the `marbles.actions` dispatched into the `store` (runs in virtual time).
+ * The current state is emitted on subscription i.e. in the first frame.
+ */
+export const expectStoreMarbles = <T>(store: Store<T>, marbles: StateMarbles<T>) =>
+  createStateTestScheduler().run(({cold, expectObservable}) => {
+    expectObservable(store.state$).toBe(marbles.states, marbles.stateValues);
+    cold(marbles.actions, marbles.actionValues).subscribe((action) => store.dispatch(action));
+  });
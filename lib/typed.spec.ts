@@ -0,0 +1,87 @@
+import {Subject} from 'rxjs';
+import {
+  Action,
+  ActionOf,
+  actor,
+  clearActorTypes,
+  createStore,
+  ofType,
+  on,
+  OnHandler,
+  redSetPropertyIfNotSame_,
+  reducersOn,
+  toState$_,
+  ValueReducer,
+} from './index';
+
+/** Compiles only if `A` and `B` are mutually assignable. */
+type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+/** Compiles only if `T` is `true`. */
+type Expect<T extends true> = T;
+
+describe('typed', () => {
+  afterEach(() => clearActorTypes());
+
+  interface StateViewProducts {
+    products?: string[];
+    sortAsc?: boolean;
+  }
+
+  const createActors = () => ({
+    set_products: actor<string[]>('SetProducts'),
+    set_sortAsc: actor<boolean, {source: string}>('SetSortAsc'),
+  });
+
+  test('ofType', () => {
+    const {set_products, set_sortAsc} = createActors();
+    const action$ = new Subject<Action<any>>();
+    const values: (string[] | boolean)[] = [];
+
+    const typed$ = action$.pipe(ofType(set_products, set_sortAsc));
+    typed$.subscribe((action) => values.push(action.value));
+    action$.next(set_sortAsc.new(true));
+    action$.next({type: 'Other', value: 1});
+    action$.next(set_products.new(['a']));
+    expect(values).toEqual([true, ['a']]);
+
+    type Typed = typeof typed$ extends import('rxjs').Observable<infer A> ? A : never;
+    const checks: [
+      Expect<Equals<Typed, Action<string[], any> | Action<boolean, {source: string}>>>,
+      Expect<Equals<ActionOf<typeof set_sortAsc>, Action<boolean, {source: string}>>>,
+    ] = [true, true];
+    expect(checks).toEqual([true, true]);
+  });
+
+  test('on', () => {
+    const {set_products, set_sortAsc} = createActors();
+    const sources: string[] = [];
+    const store = createStore(
+      toState$_(
+        <StateViewProducts>{products: [], sortAsc: true},
+        reducersOn(
+          on(set_products, redSetPropertyIfNotSame_<StateViewProducts, 'products'>('products')),
+          on(set_sortAsc, (state: StateViewProducts, sortAsc, action) => {
+            const checks: [Expect<Equals<typeof sortAsc, boolean>>, Expect<Equals<typeof action.meta, {source: string}>>] = [true, true];
+            sources.push(action.meta && action.meta.source);
+            return {...state, sortAsc};
+          }),
+        ),
+      ),
+    );
+
+    store.dispatch(set_products.new(['a']));
+    store.dispatch(set_sortAsc.new(false, {source: 'header'}));
+    store.dispatch({type: 'Other', value: 1});
+    expect(store.getState()).toEqual({products: ['a'], sortAsc: false});
+    expect(sources).toEqual(['header']);
+    store.destruct();
+
+    type ProductsReducer = ValueReducer<StateViewProducts, string[]>;
+    type SortAscHandler = OnHandler<StateViewProducts, boolean>;
+    const checks: [
+      Expect<Equals<ProductsReducer extends SortAscHandler ? true : false, false>>,
+      Expect<Equals<ProductsReducer extends OnHandler<StateViewProducts, string[]> ? true : false, true>>,
+    ] = [true, true];
+    expect(checks).toEqual([true, true]);
+  });
+});
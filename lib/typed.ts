@@ -0,0 +1,46 @@
+import {OperatorFunction} from 'rxjs';
+import {filter} from 'rxjs/operators';
+import {Action, ActionHandlerMap, ActionReducer, Actor, reducers_} from './index';
+
+/** `Action` created by the `Actor` (union of the `Action`s for a union of `Actor`s). */
+export type ActionOf<X> = X extends Actor<infer T, infer M, any> ? Action<T, M> : never;
+
+/** Handler of the `Action`s of an `Actor<T>` in `on`. */
+export type OnHandler<S, T, M = any> = (state: S, value: T, action: Action<T, M>) => S;
+
+/** Type-checked handler of an `Actor` created by `on`. */
+export interface On<S> {
+  type: string;
+  handler: OnHandler<S, any>;
+}
+
+/**
+ * Operator filtering the `Action`s of the `actors` with the value types narrowed accordingly.
+ * @example
+ * store.action$.pipe(ofType(set_sortAsc, set_products)).subscribe((action) => ...); // Action<boolean> | Action<string[]>
+ */
+export const ofType = <X extends Actor<any, any, any>[]>(...actors: X): OperatorFunction<Action<any>, ActionOf<X[number]>> => {
+  const types = actors.map((act) => act.type);
+  return filter((action: Action<any>): action is ActionOf<X[number]> => types.includes(action.type));
+};
+
+/**
+ * Returns the `handler` of the `Action`s of the `actor` with the value type checked against the `Actor` (see `reducersOn`).
+ * @example
+ * on(set_sortAsc, (state: StateViewProducts, sortAsc) => ({...state, sortAsc})); // sortAsc: boolean
+ */
+export const on = <S, T, M = any>(actor: Actor<T, M, any>, handler: OnHandler<S, T, M>): On<S> => ({type: actor.type, handler});
+
+/** Returns the `ActionHandlerMap` of the `on` handlers, a later handler of the same `Actor` replaces an earlier one. */
+export const handlersOn = <S>(...ons: On<S>[]): ActionHandlerMap<S> =>
+  ons.reduce<ActionHandlerMap<S>>((acc, item) => Object.assign(acc, {[item.type]: item.handler}), {});
+
+/**
+ * Returns a reducer built from type-checked `on` handlers, an alternative to `reducers_`.
+ * @example
+ * const state$_ = toState$_(<StateViewProducts>{...}, reducersOn(
+ *   on(set_sortAsc, (state: StateViewProducts, sortAsc) => ({...state, sortAsc})),
+ *   on(set_products, redSetPropertyIfNotSame_<StateViewProducts, 'products'>('products')),
+ * ));
+ */
+export const reducersOn = <S>(...ons: On<S>[]): ActionReducer<S> => reducers_(handlersOn(...ons));
@@ -0,0 +1,192 @@
+import {Subject} from 'rxjs';
+import {
+  Action,
+  actor,
+  apply_patch,
+  clearActorTypes,
+  createStore,
+  initReduceAssemble$_,
+  present$_,
+  redSetPropertyIfNotSame_,
+  undoable,
+} from './index';
+
+describe('undoable', () => {
+  afterEach(() => clearActorTypes());
+
+  interface Form {
+    name?: string;
+    count?: number;
+  }
+
+  test('undo, redo, jump and clear history', () => {
+    const set_name = actor<string>('SetName');
+    const set_count = actor<number>('SetCount');
+    const form = undoable<Form>(
+      {[set_name.type]: redSetPropertyIfNotSame_('name'), [set_count.type]: redSetPropertyIfNotSame_('count')},
+      {tag: 'FORM'},
+    );
+    expect(form.undo.type).toBe('UNDO_FORM');
+
+    const store = createStore(form.state$_({name: '', count: 0}));
+    const initial = store.getState();
+    store.dispatch(form.undo.new());
+    store.dispatch(set_name.new(''));
+    expect(store.getState()).toBe(initial);
+    expect(form.canUndo(initial)).toBe(false);
+
+    store.dispatch(set_name.new('a'));
+    store.dispatch(set_count.new(1));
+    store.dispatch(set_count.new(2));
+    expect(store.getState().present).toEqual({name: 'a', count: 2});
+    expect(store.getState().past).toEqual([
+      {name: '', count: 0},
+      {name: 'a', count: 0},
+      {name: 'a', count: 1},
+    ]);
+
+    store.dispatch(form.undo.new());
+    store.dispatch(form.undo.new());
+    expect(store.getState().present).toEqual({name: 'a', count: 0});
+    expect(form.canRedo(store.getState())).toBe(true);
+    store.dispatch(form.redo.new());
+    expect(store.getState().present).toEqual({name: 'a', count: 1});
+
+    store.dispatch(form.jump.new(-2));
+    expect(store.getState()).toEqual({
+      past: [],
+      present: {name: '', count: 0},
+      future: [
+        {name: 'a', count: 0},
+        {name: 'a', count: 1},
+        {name: 'a', count: 2},
+      ],
+    });
+    const jumped = store.getState();
+    store.dispatch(form.jump.new(-1));
+    store.dispatch(form.jump.new(4));
+    expect(store.getState()).toBe(jumped);
+    store.dispatch(form.jump.new(3));
+    expect(store.getState().present).toEqual({name: 'a', count: 2});
+
+    store.dispatch(form.undo.new());
+    store.dispatch(set_name.new('b'));
+    expect(store.getState().present).toEqual({name: 'b', count: 1});
+    expect(store.getState().future).toEqual([]);
+
+    store.dispatch(form.clearHistory.new());
+    expect(store.getState()).toEqual({past: [], present: {name: 'b', count: 1}, future: []});
+  });
+
+  test('limit, allowTypes and group', () => {
+    const set_name = actor<string>('SetName', {meta: () => ({timestamp: 0})});
+    const set_count = actor<number>('SetCount');
+    const form = undoable<Form>(
+      {[set_name.type]: redSetPropertyIfNotSame_('name'), [set_count.type]: redSetPropertyIfNotSame_('count')},
+      {
+        tag: 'FORM',
+        limit: 2,
+        allowTypes: [set_name.type],
+        group: (action, last) => action.type === last.type && action.meta.timestamp - last.meta.timestamp < 500,
+      },
+    );
+
+    let state = form.init({name: '', count: 0});
+    state = form.reducer(state, set_name.new('a', {timestamp: 0}));
+    state = form.reducer(state, set_name.new('ab', {timestamp: 100}));
+    state = form.reducer(state, set_name.new('abc', {timestamp: 200}));
+    expect(state.past).toEqual([{name: '', count: 0}]);
+
+    state = form.reducer(state, set_count.new(1));
+    expect(state.present).toEqual({name: 'abc', count: 1});
+    expect(state.past).toEqual([{name: '', count: 0}]);
+
+    state = form.reducer(state, set_name.new('x', {timestamp: 1000}));
+    state = form.reducer(state, set_name.new('y', {timestamp: 2000}));
+    expect(state.past).toEqual([
+      {name: 'abc', count: 1},
+      {name: 'x', count: 1},
+    ]);
+
+    state = form.reducer(state, form.undo.new());
+    state = form.reducer(state, form.redo.new());
+    state = form.reducer(state, set_name.new('z', {timestamp: 2100}));
+    expect(state.past).toEqual([
+      {name: 'x', count: 1},
+      {name: 'y', count: 1},
+    ]);
+  });
+
+  test('present$_ unwraps the present when assembling', () => {
+    interface Test {
+      form?: Form;
+      title?: string;
+    }
+    const set_name = actor<string>('SetName');
+    const set_title = actor<string>('SetTitle');
+    const form = undoable<Form>({[set_name.type]: redSetPropertyIfNotSame_('name')}, {tag: 'FORM'});
+    const store = createStore(
+      initReduceAssemble$_(
+        <Test>{form: null, title: ''},
+        {[set_title.type]: redSetPropertyIfNotSame_('title')},
+        {form: present$_(form.state$_({name: ''}))},
+      ),
+    );
+    const states = <Test[]>[];
+    store.state$.subscribe((_) => states.push(_));
+
+    store.dispatch(set_name.new('a'));
+    store.dispatch(set_title.new('title'));
+    store.dispatch(form.undo.new());
+    store.dispatch(form.undo.new());
+    expect(states).toEqual([
+      {form: {name: ''}, title: ''},
+      {form: {name: 'a'}, title: ''},
+      {form: {name: 'a'}, title: 'title'},
+      {form: {name: ''}, title: 'title'},
+    ]);
+    expect(states[2].form).toBe(states[1].form);
+  });
+
+  test('present$_ addresses the present with replace_state and apply_patch', () => {
+    interface Test {
+      form?: Form;
+      title?: string;
+    }
+    const set_name = actor<string>('SetName');
+    const form = undoable<Form>({[set_name.type]: redSetPropertyIfNotSame_('name')}, {tag: 'FORM'});
+    const state$_ = initReduceAssemble$_(<Test>{form: null, title: ''}, {}, {form: present$_(form.state$_({name: '', count: 0}))});
+
+    const store = createStore(state$_, {preloadedState: {form: {name: 'preloaded'}}});
+    expect(store.getState()).toEqual({form: {name: 'preloaded', count: 0}, title: ''});
+    store.dispatch(set_name.new('a'));
+    const snapshot = store.snapshot();
+    store.dispatch(set_name.new('b'));
+    store.dispatch(form.undo.new());
+    expect(store.getState().form).toEqual({name: 'a', count: 0});
+
+    store.restore(snapshot);
+    expect(store.getState()).toEqual({form: {name: 'a', count: 0}, title: ''});
+    store.dispatch(form.undo.new());
+    expect(store.getState().form).toEqual({name: 'a', count: 0});
+
+    store.dispatch(apply_patch.new([{op: 'replace', path: '/form/count', value: 1}]));
+    store.dispatch(set_name.new('c'));
+    store.dispatch(form.undo.new());
+    expect(store.getState().form).toEqual({name: 'a', count: 1});
+    store.destruct();
+
+    const action$ = new Subject<Action<any>>();
+    const states = <Form[]>[];
+    present$_(form.state$_({name: '', count: 0}))(action$).subscribe((_) => states.push(_));
+    action$.next(set_name.new('a'));
+    action$.next(apply_patch.new([{op: 'replace', path: '/count', value: 1}]));
+    action$.next(form.undo.new());
+    expect(states).toEqual([
+      {name: '', count: 0},
+      {name: 'a', count: 0},
+      {name: 'a', count: 1},
+      {name: '', count: 0},
+    ]);
+  });
+});
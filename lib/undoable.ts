@@ -0,0 +1,169 @@
+import {distinctUntilChanged, map, tap} from 'rxjs/operators';
+import {
+  Action,
+  ActionHandlerMap,
+  ActionReducer,
+  actor,
+  Actor,
+  apply_patch,
+  bindState$_,
+  PatchOperation,
+  preload_state,
+  reducers_,
+  replace_state,
+  StreamToState,
+  toState$_,
+} from './index';
+
+/** State with the undo history of an `undoable` slice, `past` and `future` are ordered oldest first. */
+export interface UndoableState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Last recorded action (if the undo step can still be grouped, see `UndoableOptions.group`). */
+  last?: Action<any>;
+}
+
+/** Options for `undoable`. */
+export interface UndoableOptions {
+  /** Tag the actor types are built with, unique per `undoable` slice. */
+  tag: string;
+  /** Maximum number of `past` states (default: unlimited). */
+  limit?: number;
+  /** Recorded action types (default: all), other changes of the `present` don't create undo steps. */
+  allowTypes?: string[];
+  /** Returns whether the `action` is merged into the undo step of the `last` recorded action e.g. when typing rapidly. */
+  group?: (action: Action<any>, last: Action<any>) => boolean;
+}
+
+/** Actors, reducer and helpers of an `undoable` slice. */
+export interface Undoable<T> {
+  undo: Actor<void>;
+  redo: Actor<void>;
+  clearHistory: Actor<void>;
+  /** Moves by the number of steps through the history (negative: back), out of range jumps are ignored. */
+  jump: Actor<number>;
+  reducer: ActionReducer<UndoableState<T>>;
+  /** Returns an `UndoableState` without history. */
+  init(present: T): UndoableState<T>;
+  /** Returns a state creator starting with the `present` state. */
+  state$_(present: T): StreamToState<UndoableState<T>>;
+  canUndo(state: UndoableState<T>): boolean;
+  canRedo(state: UndoableState<T>): boolean;
+}
+
+/**
+ * Wraps the `reduce` handlers or reducer of a slice into an `UndoableState` with undo history and actor types built with `options.tag`.
+ * @example
+ * const form = undoable(formHandlers, {tag: 'UI_FORM', limit: 50, group: (action, last) => action.type === last.type});
+ * ...
+ * const state$_ = initReduceAssemble$_(<StateViewEdit>{form: null, ...}, {...}, {form: form.state$_(DEFAULT_FORM)});
+ * ...
+ * rxState.act(form.undo, null);
+ */
+export const undoable = <T>(reduce: ActionReducer<T> | ActionHandlerMap<T>, options: UndoableOptions): Undoable<T> => {
+  type State = UndoableState<T>;
+  const reducer = typeof reduce === 'function' ? reduce : reducers_(reduce);
+  const limit = options.limit > 0 ? options.limit : Infinity;
+  const recorded = (action: Action<any>) => !options.allowTypes || options.allowTypes.includes(action.type);
+
+  const undo = actor<void>('UNDO', options.tag);
+  const redo = actor<void>('REDO', options.tag);
+  const clearHistory = actor<void>('CLEAR_HISTORY', options.tag);
+  const jump = actor<number>('JUMP', options.tag);
+
+  const jumpBy = (state: State, steps: number): State => {
+    if (!steps || (steps < 0 ? -steps > state.past.length : steps > state.future.length)) {
+      return state;
+    }
+    const timeline = [...state.past, state.present, ...state.future];
+    const index = state.past.length + steps;
+    return {past: timeline.slice(0, index), present: timeline[index], future: timeline.slice(index + 1)};
+  };
+
+  const record = (state: State, action: Action<any>): State => {
+    const present = reducer(state.present, action);
+    if (present === state.present) {
+      return state;
+    }
+    if (!recorded(action)) {
+      return {...state, present};
+    }
+    if (options.group && state.last && options.group(action, state.last)) {
+      return {past: state.past, present, future: [], last: action};
+    }
+    return {past: [...state.past, state.present].slice(-limit), present, future: [], last: action};
+  };
+
+  const init = (present: T): State => ({past: [], present, future: []});
+
+  const undoableReducer: ActionReducer<State> = (state, action) => {
+    switch (action.type) {
+      case undo.type:
+        return jumpBy(state, -1);
+      case redo.type:
+        return jumpBy(state, 1);
+      case jump.type:
+        return jumpBy(state, action.value);
+      case clearHistory.type:
+        return state.past.length || state.future.length || state.last ? init(state.present) : state;
+      default:
+        return record(state, action);
+    }
+  };
+
+  return {
+    undo,
+    redo,
+    clearHistory,
+    jump,
+    reducer: undoableReducer,
+    init,
+    state$_: (present: T) => toState$_(init(present), undoableReducer),
+    canUndo: (state: State) => state.past.length > 0,
+    canRedo: (state: State) => state.future.length > 0,
+  };
+};
+
+/** Prefixes the JSON `pointer` with the `present` of an `UndoableState`. */
+const toPresentPointer = (pointer: string) => `/present${pointer}`;
+
+/**
+ * Returns a state creator emitting only the `present` of the `UndoableState`s e.g. when the parent doesn't need the history.
+ * `replace_state`, `preload_state` and `apply_patch` address the `present` (e.g. for `preloadedState` or `Store.restore`), a replaced
+ * `present` starts a new history.
+ * @example
+ * const state$_ = initReduceAssemble$_(<StateViewEdit>{form: null, ...}, {...}, {form: present$_(form.state$_(DEFAULT_FORM))});
+ */
+export const present$_ = <T>(state$_: StreamToState<UndoableState<T>>): StreamToState<T> =>
+  bindState$_((action$) => {
+    let current: UndoableState<T> = null;
+    const wrap = (action: Action<any>): Action<any> =>
+      action.type === replace_state.type
+        ? {
+            ...action,
+            value:
+              action.value === undefined
+                ? undefined
+                : current && action.value === current.present
+                ? current
+                : {past: [], present: action.value, future: []},
+          }
+        : action.type === preload_state.type
+        ? {...action, value: action.value === undefined ? undefined : {present: action.value}}
+        : action.type === apply_patch.type
+        ? {
+            ...action,
+            value: (<PatchOperation[]>action.value || []).map((operation) => ({
+              ...operation,
+              path: toPresentPointer(operation.path),
+              ...('from' in operation ? {from: toPresentPointer(operation.from)} : {}),
+            })),
+          }
+        : action;
+    return state$_(action$.pipe(map(wrap))).pipe(
+      tap((state) => (current = state)),
+      map((state) => state.present),
+      distinctUntilChanged(),
+    );
+  });